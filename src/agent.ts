@@ -3,20 +3,96 @@
 import { CredentialManager, simpleFetchHandler, Client, type ClientOptions, type CallRequestOptions, type ClientResponse, type ProcedureRequestOptions, type QueryRequestOptions, type SuccessClientResponse } from "@atcute/client";
 import { AtUri } from "@atproto/syntax";
 import { getDidAndPds } from "./pds-helpers.js";
-import { resolveHandleAnonymously } from "./handles/resolve.js";
+import { getSigningKey } from "./handles/did-document.js";
+import type { ResolveOptions } from "./handles/config.js";
 import type { Records, XRPCProcedures, XRPCQueries } from "@atcute/lexicons/ambient";
 import type { XRPCQueryMetadata, XRPCProcedureMetadata } from "@atcute/lexicons/validations";
 import type { HasRequiredKeys, Namespaced } from "./type-helpers.js";
 import type { ComAtprotoRepoApplyWrites, ComAtprotoRepoCreateRecord, ComAtprotoRepoDeleteRecord, ComAtprotoRepoGetRecord, ComAtprotoRepoListRecords, ComAtprotoRepoPutRecord, ComAtprotoSyncGetBlob, ComAtprotoSyncListRepos } from '@atcute/atproto';
-import type { ActorIdentifier, Blob, CanonicalResourceUri, Cid, Did, ResourceUri } from "@atcute/lexicons";
+import type { ActorIdentifier, Blob, CanonicalResourceUri, Cid, Did, RecordKey, ResourceUri } from "@atcute/lexicons";
 import * as v from '@atcute/lexicons/validations';
-
-interface GetRecordParams<K extends keyof Records> extends ComAtprotoRepoGetRecord.$params { collection: K; }
-interface ListRecordsParams<K extends keyof Records> extends ComAtprotoRepoListRecords.$params { collection: K; }
-interface PutRecordInput<K extends keyof Records> extends ComAtprotoRepoPutRecord.$input { collection: K; record: v.InferInput<Records[K]>; }
-interface CreateRecordInput<K extends keyof Records> extends ComAtprotoRepoCreateRecord.$input { collection: K; record: v.InferInput<Records[K]>; }
+import { RetryPolicy, sleep, type RetryAttempt, type RetryOptions } from "./retry.js";
+import { isInvalidSwapError, isRecordNotFoundError, setResponseContext, XRPCError, type XRPCRequestContext } from "./errors.js";
+import { WriteTransaction } from "./transaction.js";
+import { getSignal, RequestAbortedError, throwIfAborted, type RequestOptions } from "./signal.js";
+import type { Middleware, XRPCCall, XRPCCallResult } from "./middleware.js";
+import { readRecordProof, readRepo, readRepoDiff, RepoVerificationError, verifyCommitSignature, type ExportRepoOptions, type RepoCommit, type RepoRecord, type RepoSyncEvent, type SyncRepoOptions } from "./repo.js";
+import { fromStream, fromUint8Array } from "@atcute/car";
+import { getRecordCid } from "./cid.js";
+import { prepareRecord, RecordValidationError, validateRecord, type BatchWriteValidationOptions, type InvalidRecord, type RecordInput, type RecordSchemaOf, type ListValidationOptions, type RecordValidationOptions, type WriteValidationOptions } from "./validation.js";
+
+interface GetRecordParams<K extends keyof Records> extends ComAtprotoRepoGetRecord.$params { collection: K; validate?: RecordValidationOptions<K>; }
+interface VerifiedGetRecordParams<K extends keyof Records> { repo: ActorIdentifier; collection: K; rkey: RecordKey; validate?: RecordValidationOptions<K>; }
+interface TryGetRecordParams<K extends keyof Records> extends GetRecordParams<K> { validate?: RecordValidationOptions<K> & { mode?: 'throw' | 'skip' }; }
+interface ListRecordsParams<K extends keyof Records> extends ComAtprotoRepoListRecords.$params { collection: K; validate?: ListValidationOptions<K>; }
+interface PutRecordInput<K extends keyof Records> extends ComAtprotoRepoPutRecord.$input { collection: K; record: RecordInput<K>; }
+interface CreateRecordInput<K extends keyof Records> extends ComAtprotoRepoCreateRecord.$input { collection: K; record: RecordInput<K>; }
 interface DeleteRecordInput<K extends keyof Records> extends ComAtprotoRepoDeleteRecord.$input { collection: K; }
 
+/**
+ * Points at a record: an at-uri, a parsed {@link AtUri}, or a strong ref such as `com.atproto.repo.strongRef`. Refs
+ * with a CID are checked against it when resolved.
+ */
+export type RecordRef<K extends keyof Records = keyof Records> =
+    | `at://${ActorIdentifier}/${K}/${RecordKey}`
+    | ResourceUri
+    | AtUri
+    | { uri: ResourceUri; cid?: string };
+
+interface ResolveRefOptions<K extends keyof Records> extends RequestOptions, ResolveOptions {
+    validate?: RecordValidationOptions<K>;
+}
+
+interface ResolveRefsOptions<K extends keyof Records> extends ResolveRefOptions<K> {
+    /** How many records to fetch at once from each PDS. Defaults to 4. */
+    concurrency?: number;
+}
+
+/**
+ * A ref that {@link KittyAgent.resolveRefs} couldn't resolve, for instance because its repository couldn't be found
+ * or the record didn't match its CID.
+ */
+export interface FailedRef<K extends keyof Records = keyof Records> {
+    ref: RecordRef<K>;
+    error: unknown;
+}
+
+interface ResolvedRef<K extends keyof Records> {
+    repo: ActorIdentifier;
+    collection: K;
+    rkey: RecordKey;
+    cid: Cid | undefined;
+}
+
+function parseRecordRef<K extends keyof Records>(ref: RecordRef<K>): ResolvedRef<K> {
+    let cid: string | undefined;
+    if (typeof ref === 'object' && !(ref instanceof AtUri)) {
+        cid = ref.cid;
+        ref = ref.uri;
+    }
+
+    const uri = typeof ref === 'string' ? new AtUri(ref) : ref;
+    if (!uri.collection || !uri.rkey) {
+        throw new TypeError(`${uri.toString()} does not point at a record`);
+    }
+
+    return {
+        repo: uri.host as ActorIdentifier,
+        collection: uri.collection as K,
+        rkey: uri.rkey as RecordKey,
+        cid: cid as Cid | undefined,
+    };
+}
+
+interface WriteOptions<K extends keyof Records> extends WriteValidationOptions<K>, RequestOptions {}
+
+interface UpdateRecordOptions<K extends keyof Records> extends WriteOptions<K> {
+    /** How many times to try the read-modify-write cycle before giving up on `InvalidSwap`. Defaults to 5. */
+    maxAttempts?: number;
+    /** Create the record if it doesn't exist yet. The mutator then receives `undefined`. */
+    createIfMissing?: boolean;
+}
+
 interface GetRecordOutput<K extends keyof Records> {
     cid?: Cid;
     readonly uri: AtUri;
@@ -30,29 +106,15 @@ interface ListRecordsOutput<K extends keyof Records> {
         value: v.InferInput<Records[K]>;
     }[];
     cursor?: string | undefined;
+    /** Records that failed validation, when validating in `collect` mode */
+    invalid?: InvalidRecord[];
 }
 
 type PaginatedListRecordsOutput<K extends keyof Records> = AsyncIterable<{
     cid: Cid;
     readonly uri: AtUri;
     value: v.InferInput<Records[K]>;
-}, { cursor?: string | undefined; }>
-
-export class XRPCError extends Error {
-    kind: string;
-    constructor(kind: string, message: string) {
-        super(message);
-        this.kind = kind;
-    }
-}
-
-export function isInvalidSwapError(err: unknown) {
-    return err instanceof XRPCError && err.kind === 'InvalidSwap';
-}
-
-export function isRecordNotFoundError(err: unknown) {
-    return err instanceof XRPCError && err.kind === 'RecordNotFound';
-}
+}, { cursor?: string | undefined; invalid?: InvalidRecord[]; }>
 
 interface Record {
     uri: ResourceUri;
@@ -88,11 +150,55 @@ type DataThenParams<T>
             ? [data: undefined, params: W]
             : [];
 
+/**
+ * Applies the params, input and headers of a call that went through middleware to the original request options.
+ * Middleware is trusted to keep params and input valid for the endpoint, so the options keep their type.
+ */
+function withCall<TInit extends object>(init: TInit | undefined, call: XRPCCall): [init: TInit] {
+    return [{ ...init, params: call.params, input: call.input, headers: call.headers } as TInit];
+}
+
+export interface KittyAgentOptions extends ClientOptions {
+    /** Retry policy for failed requests. Pass `false` to disable retrying. */
+    retry?: RetryOptions | false;
+    /** Middleware to run every request through, outermost first. See {@link KittyAgent.use}. */
+    middleware?: readonly Middleware[];
+}
+
 export class KittyAgent {
     public readonly xrpc: Client;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly middlewareChain: Middleware[];
 
-    constructor(opts: ClientOptions | Client) {
+    constructor(opts: KittyAgentOptions | Client) {
         this.xrpc = opts instanceof Client ? opts as Client : new Client(opts) as Client;
+
+        const retry = opts instanceof Client ? undefined : opts.retry;
+        this.retryPolicy = new RetryPolicy(retry === false ? { maxAttempts: 1 } : retry);
+        this.middlewareChain = opts instanceof Client ? [] : [...opts.middleware ?? []];
+    }
+
+    /**
+     * The retry options this agent was created with.
+     */
+    get retry(): RetryOptions {
+        return this.retryPolicy.options;
+    }
+
+    /**
+     * The middleware registered on this agent, outermost first.
+     */
+    get middleware(): readonly Middleware[] {
+        return this.middlewareChain;
+    }
+
+    /**
+     * Registers middleware to run every request through. Middleware registered earlier wraps middleware registered
+     * later, and each retry attempt goes through the whole chain again.
+     */
+    use(...middleware: Middleware[]): this {
+        this.middlewareChain.push(...middleware);
+        return this;
     }
 
     /**
@@ -109,29 +215,29 @@ export class KittyAgent {
         return new KittyAgent({ handler: simpleFetchHandler({ service }) });
     }
 
-    private static readonly pdsAgentCache = new Map<Did, KittyAgent>();
+    private static readonly pdsAgentCache = new Map<string, KittyAgent>();
 
     /**
-     * Gets a read-only client for the PDS hosting a specific account via handle or DID.
+     * Gets a read-only client for the PDS hosting a specific account via handle or DID. Clients are shared between
+     * accounts on the same PDS; which PDS an account is on is cached as configured by the identity cache.
      */
-    static async getOrCreatePds(handleOrDid: string) {
-        const did = await resolveHandleAnonymously(handleOrDid);
+    static async getOrCreatePds(handleOrDid: string, options?: ResolveOptions) {
+        const { pds } = await getDidAndPds(handleOrDid, options);
 
-        const existingAgent = KittyAgent.pdsAgentCache.get(did);
+        const existingAgent = KittyAgent.pdsAgentCache.get(pds);
         if (existingAgent) return existingAgent;
 
-        const didAndPds = await getDidAndPds(did);
-        const agent = KittyAgent.createUnauthed(didAndPds.pds);
+        const agent = KittyAgent.createUnauthed(pds);
 
-        KittyAgent.pdsAgentCache.set(did, agent);
+        KittyAgent.pdsAgentCache.set(pds, agent);
         return agent;
     }
 
     /**
      * Gets an authenticated client for the PDS hosting a specific account via handle or DID.
      */
-    static async createPdsWithCredentials(handleOrDid: string) {
-        const { did, pds } = await getDidAndPds(handleOrDid);
+    static async createPdsWithCredentials(handleOrDid: string, options?: ResolveOptions) {
+        const { did, pds } = await getDidAndPds(handleOrDid, options);
 
         const manager = new CredentialManager({ service: pds });
         const agent = new KittyAgent({ handler: manager });
@@ -144,8 +250,8 @@ export class KittyAgent {
 	 * @param opts options to merge with
 	 * @returns the cloned XRPC client
 	 */
-	clone({ handler = this.xrpc.handler, proxy = this.xrpc.proxy }: Partial<ClientOptions> = {}): KittyAgent {
-		return new KittyAgent({ handler, proxy });
+	clone({ handler = this.xrpc.handler, proxy = this.xrpc.proxy, retry = this.retry, middleware = this.middleware }: Partial<KittyAgentOptions> = {}): KittyAgent {
+		return new KittyAgent({ handler, proxy, retry, middleware });
 	}
 
 	/**
@@ -157,7 +263,11 @@ export class KittyAgent {
 		name: TName,
 		...options: HasRequiredKeys<TInit> extends true ? [init: TInit] : [init?: TInit]
 	): Promise<ClientResponse<XRPCQueries[TName], TInit>> {
-        return this.xrpc.get(name, ...options);
+        return this.perform(
+            { method: 'get', nsid: name, params: options[0]?.params },
+            options[0],
+            call => this.xrpc.get(name, ...withCall(options[0], call))
+        );
     }
 
 	/**
@@ -169,7 +279,11 @@ export class KittyAgent {
 		name: TName,
 		...options: HasRequiredKeys<TInit> extends true ? [init: TInit] : [init?: TInit]
 	): Promise<ClientResponse<XRPCProcedures[TName], TInit>> {
-        return this.xrpc.post(name, ...options);
+        return this.perform(
+            { method: 'post', nsid: name, params: options[0]?.params },
+            options[0],
+            call => this.xrpc.post(name, ...withCall(options[0], call))
+        );
     }
 
 	/**
@@ -183,7 +297,7 @@ export class KittyAgent {
 	): Promise<SuccessClientResponse<XRPCQueries[TName], TInit>['data']> {
         const response = await this.get(name, ...options as any);
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
         return response.data;
     }
@@ -199,7 +313,7 @@ export class KittyAgent {
 	): Promise<SuccessClientResponse<XRPCProcedures[TName], TInit>['data']> {
         const response = await this.post(name, ...options as any);
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
         return response.data;
     }
@@ -213,10 +327,91 @@ export class KittyAgent {
 		schema: TMeta | Namespaced<TMeta>,
 		...options: HasRequiredKeys<TInit> extends true ? [init: TInit] : [init?: TInit]
 	): Promise<ClientResponse<TMeta, TInit>> {
-        return this.xrpc.call(schema, ...options);
+        const meta = 'mainSchema' in schema ? schema.mainSchema : schema;
+        return this.perform(
+            { method: meta.type === 'xrpc_query' ? 'get' : 'post', nsid: meta.nsid, params: options[0]?.params },
+            options[0],
+            call => this.xrpc.call(schema, ...withCall(options[0], call))
+        );
+    }
+
+    /**
+     * Runs a request through the middleware chain according to the retry policy. Failed responses that aren't retried
+     * anymore are returned as-is, with the request context and attempt history recorded for
+     * {@link XRPCError.fromResponse}.
+     */
+    private async perform<R extends XRPCCallResult>(
+        context: XRPCRequestContext,
+        init: { input?: unknown; headers?: HeadersInit; signal?: AbortSignal } | undefined,
+        request: (call: XRPCCall) => Promise<R>
+    ): Promise<R> {
+        const signal = init?.signal;
+        const run = this.middlewareChain.reduceRight<(call: XRPCCall) => Promise<XRPCCallResult>>(
+            (next, middleware) => call => middleware(call, next),
+            request
+        );
+
+        const attemptRequest = async (attempt = 1) => {
+            throwIfAborted(signal);
+            try {
+                return await run({
+                    method: context.method,
+                    nsid: context.nsid,
+                    params: context.params,
+                    input: init?.input,
+                    headers: new Headers(init?.headers),
+                    signal,
+                    attempt,
+                }) as R;
+            } catch (err) {
+                if (signal?.aborted) throw new RequestAbortedError(signal.reason);
+                throw err;
+            }
+        };
+
+        const policy = this.retryPolicy;
+        if (!policy.canRetry(context.method, context.nsid)) {
+            const response = await attemptRequest();
+            if (!response.ok) setResponseContext(response, context, []);
+            return response;
+        }
+
+        const attempts: RetryAttempt[] = [];
+        for (let attempt = 1; ; attempt++) {
+            let response: R;
+            try {
+                response = await attemptRequest(attempt);
+            } catch (err) {
+                // fetch throws a TypeError on network failures, anything else is a bug, an abort or a validation error
+                if (!(err instanceof TypeError)) throw err;
+
+                const delay = policy.getDelay(attempt);
+                if (delay === undefined) throw err;
+
+                attempts.push({ attempt, error: err, delay });
+                await sleep(delay, signal);
+                continue;
+            }
+
+            if (response.ok) return response;
+
+            const error = (response.data as { error?: string } | undefined)?.error;
+            const delay = policy.isRetryableStatus(response.status)
+                ? policy.getDelay(attempt, response.headers)
+                : undefined;
+
+            attempts.push({ attempt, status: response.status, error, delay });
+
+            if (delay === undefined) {
+                setResponseContext(response, context, attempts);
+                return response;
+            }
+
+            await sleep(delay, signal);
+        }
     }
 
-    private makeRecordTyped<
+    protected makeRecordTyped<
         K extends keyof Records,
         R extends Record
     >(
@@ -244,27 +439,38 @@ export class KittyAgent {
         };
     }
 
-    async getRecord<K extends keyof Records>(params: GetRecordParams<K>): Promise<GetRecordOutput<K>> {
-        const response = await this.xrpc.get('com.atproto.repo.getRecord', {
+    async getRecord<K extends keyof Records>(params: GetRecordParams<K>, options?: RequestOptions): Promise<GetRecordOutput<K>> {
+        const response = await this.get('com.atproto.repo.getRecord', {
             params: {
                 repo: params.repo,
                 collection: params.collection,
                 rkey: params.rkey,
-            }
+                cid: params.cid,
+            },
+            signal: getSignal(options),
         });
 
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
 
-        return this.makeRecordTyped<K, {
+        const record = this.makeRecordTyped<K, {
             uri: ResourceUri;
             value: globalThis.Record<string, unknown>;
             cid?: string | undefined;
         }>(response.data);
+
+        if (params.validate) {
+            const result = validateRecord(params.validate.schema, record.value);
+            if (!result.ok) {
+                throw new RecordValidationError(params.collection, result.issues, result.message, { uri: response.data.uri });
+            }
+        }
+
+        return record;
     }
 
-    async getBlob(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }): Promise<Uint8Array | string> {
+    async getBlob(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }, options?: RequestOptions): Promise<Uint8Array | string> {
         if (typeof params.cid !== 'string') {
             params = {
                 cid: params.cid.ref.$link,
@@ -274,11 +480,12 @@ export class KittyAgent {
 
         const data = await this.get('com.atproto.sync.getBlob', {
             as: 'bytes',
-            params: params as ComAtprotoSyncGetBlob.$params
+            params: params as ComAtprotoSyncGetBlob.$params,
+            signal: getSignal(options),
         });
 
         if (!data.ok) {
-            throw new XRPCError(data.data?.error || 'Unknown', data.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(data);
         }
 
         return data.data;
@@ -288,8 +495,8 @@ export class KittyAgent {
      * Atcute likes to return blobs as text sometimes. I don't know why yet. This returns them as binary if that
      * happens.
      */
-    async getBlobAsBinary(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }) {
-        let blob: string | Uint8Array = await this.getBlob(params);
+    async getBlobAsBinary(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }, options?: RequestOptions) {
+        let blob: string | Uint8Array = await this.getBlob(params, options);
 
         if (typeof blob === 'string') blob = new TextEncoder().encode(blob);
 
@@ -300,19 +507,24 @@ export class KittyAgent {
      * Atcute likes to return blobs as text sometimes. I don't know why yet. This returns them as text no matter what,
      * and also allows you to specify an encoding.
      */
-    async getBlobAsText(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }, encoding?: string) {
-        let blob: string | Uint8Array = await this.getBlob(params);
+    async getBlobAsText(params: ComAtprotoSyncGetBlob.$params | { did: Did, cid: Blob }, encoding?: string, options?: RequestOptions) {
+        let blob: string | Uint8Array = await this.getBlob(params, options);
 
         if (typeof blob !== 'string') blob = new TextDecoder(encoding).decode(blob);
 
         return blob;
     }
 
-    async tryGetRecord<K extends keyof Records>(params: GetRecordParams<K>) {
+    /**
+     * Like {@link getRecord}, but returns an empty result if the record doesn't exist. With `validate.mode` set to
+     * `skip`, records failing validation are treated as if they didn't exist.
+     */
+    async tryGetRecord<K extends keyof Records>(params: TryGetRecordParams<K>, options?: RequestOptions) {
         try {
-            return await this.getRecord(params);
+            return await this.getRecord(params, options);
         } catch (err) {
-            if (!isRecordNotFoundError(err)) throw err;
+            const skip = err instanceof RecordValidationError && params.validate?.mode === 'skip';
+            if (!skip && !isRecordNotFoundError(err)) throw err;
             return {
                 uri: undefined,
                 value: undefined,
@@ -321,50 +533,251 @@ export class KittyAgent {
         }
     }
 
-    async list<K extends keyof Records>(params: ListRecordsParams<K>): Promise<ListRecordsOutput<K>> {
+    /**
+     * Fetches the record a ref points at from the PDS hosting it. If the ref has a CID, that version of the record is
+     * requested and the returned record is checked against the CID.
+     */
+    async resolveRef<K extends keyof Records = keyof Records>(
+        ref: RecordRef<K>,
+        options?: ResolveRefOptions<K>,
+    ): Promise<GetRecordOutput<K>> {
+        const parsed = parseRecordRef(ref);
+        const pds = await KittyAgent.getOrCreatePds(parsed.repo, options);
+        return await pds.getRefRecord(parsed, options);
+    }
+
+    /**
+     * Like {@link resolveRef} for many refs at once, returning the records in the same order. Refs are grouped by
+     * PDS, so every PDS gets at most `concurrency` requests at a time, and refs to the same record are only fetched
+     * once. Records that don't exist are `undefined`, and refs that fail to resolve for any other reason are a
+     * {@link FailedRef} with the error, so one bad ref doesn't fail the others. Only aborting fails the whole batch.
+     */
+    async resolveRefs<K extends keyof Records = keyof Records>(
+        refs: readonly RecordRef<K>[],
+        { concurrency = 4, ...options }: ResolveRefsOptions<K> = {},
+    ): Promise<(GetRecordOutput<K> | FailedRef<K> | undefined)[]> {
+        if (!(concurrency >= 1)) {
+            throw new RangeError(`concurrency must be at least 1, got ${concurrency}`);
+        }
+
+        // malformed refs fail on their own rather than rejecting the batch
+        const invalid = new Map<number, unknown>();
+        const parsed = refs.map((ref, i) => {
+            try {
+                return parseRecordRef(ref);
+            } catch (err) {
+                invalid.set(i, err);
+                return undefined;
+            }
+        });
+        const valid = parsed.filter(ref => ref !== undefined);
+        const keyOf = (ref: ResolvedRef<K>) => `${ref.repo}/${ref.collection}/${ref.rkey}#${ref.cid ?? ''}`;
+
+        const repos = [...new Set(valid.map(ref => ref.repo))];
+        const settled = await Promise.allSettled(repos.map(repo => KittyAgent.getOrCreatePds(repo, options)));
+        const pdses = new Map(repos.map((repo, i) => [repo, settled[i]]));
+
+        const results = new Map<string, GetRecordOutput<K> | undefined>();
+        const errors = new Map<string, unknown>();
+
+        // agents are shared between accounts on the same PDS, so they identify the PDS
+        const queues = new Map<KittyAgent, ResolvedRef<K>[]>();
+        const queued = new Set<string>();
+        for (const ref of valid) {
+            if (queued.has(keyOf(ref))) continue;
+            queued.add(keyOf(ref));
+
+            const pds = pdses.get(ref.repo)!;
+            if (pds.status === 'rejected') {
+                errors.set(keyOf(ref), pds.reason);
+                continue;
+            }
+
+            let queue = queues.get(pds.value);
+            if (!queue) queues.set(pds.value, queue = []);
+            queue.push(ref);
+        }
+
+        await Promise.all([...queues].map(([pds, queue]) =>
+            Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+                for (let ref = queue.shift(); ref; ref = queue.shift()) {
+                    try {
+                        results.set(keyOf(ref), await pds.getRefRecord(ref, options));
+                    } catch (err) {
+                        if (err instanceof RequestAbortedError) throw err;
+
+                        if (isRecordNotFoundError(err)) {
+                            results.set(keyOf(ref), undefined);
+                        } else {
+                            errors.set(keyOf(ref), err);
+                        }
+                    }
+                }
+            }))
+        ));
+
+        return parsed.map((ref, i) => {
+            if (!ref) return { ref: refs[i], error: invalid.get(i) };
+
+            return errors.has(keyOf(ref))
+                ? { ref: refs[i], error: errors.get(keyOf(ref)) }
+                : results.get(keyOf(ref));
+        });
+    }
+
+    private async getRefRecord<K extends keyof Records>(
+        { repo, collection, rkey, cid }: ResolvedRef<K>,
+        options?: ResolveRefOptions<K>,
+    ): Promise<GetRecordOutput<K>> {
+        const record = await this.getRecord({ repo, collection, rkey, cid, validate: options?.validate }, options);
+
+        if (cid !== undefined && await getRecordCid(record.value) !== cid) {
+            throw new RepoVerificationError(`record at ${record.uri.toString()} does not match ${cid}`);
+        }
+
+        return record;
+    }
+
+    /**
+     * Like {@link getRecord}, but fetches the record with `com.atproto.sync.getRecord` along with a proof of its
+     * inclusion in the repository, and checks the proof against the signing key in the repository's DID document. The
+     * record can then be trusted even when this agent points at a third-party cache rather than the account's PDS.
+     *
+     * If the signature doesn't match, the DID document is fetched again in case the key was rotated.
+     */
+    async getVerifiedRecord<K extends keyof Records>(
+        params: VerifiedGetRecordParams<K>,
+        options?: RequestOptions & ResolveOptions,
+    ): Promise<GetRecordOutput<K> & { cid: Cid; commit: RepoCommit }> {
+        const signal = getSignal(options);
+
+        const response = await this.get('com.atproto.sync.getRecord', {
+            as: 'bytes',
+            params: {
+                did: (await getDidAndPds(params.repo, options)).did,
+                collection: params.collection,
+                rkey: params.rkey,
+            },
+            signal,
+        });
+
+        if (!response.ok) {
+            throw XRPCError.fromResponse(response);
+        }
+
+        const reader = fromUint8Array(response.data);
+        const { commit, record } = await readRecordProof(
+            { roots: reader.roots, entries: reader[Symbol.iterator]() },
+            params.collection,
+            params.rkey,
+        );
+
+        for (const forceRefresh of [false, true]) {
+            const { did, didDocument } = await getDidAndPds(params.repo, { ...options, forceRefresh: forceRefresh || options?.forceRefresh });
+            if (commit.did !== did) {
+                throw new RepoVerificationError(`proof is for ${commit.did} instead of ${did}`);
+            }
+
+            const key = getSigningKey(didDocument);
+            if (key && await verifyCommitSignature(commit, key)) break;
+
+            if (forceRefresh) {
+                throw new RepoVerificationError(key ? `invalid commit signature for ${did}` : `no supported signing key for ${did}`);
+            }
+        }
+
+        if (!record) {
+            throw new XRPCError('RecordNotFound', `Could not locate record: at://${commit.did}/${params.collection}/${params.rkey}`);
+        }
+
+        if (params.validate) {
+            const result = validateRecord(params.validate.schema, record.value);
+            if (!result.ok) {
+                throw new RecordValidationError(params.collection, result.issues, result.message, { uri: `at://${commit.did}/${params.collection}/${params.rkey}` });
+            }
+        }
+
+        return {
+            ...this.makeRecordTyped<K, { uri: ResourceUri; cid: Cid; value: globalThis.Record<string, unknown> }>({
+                uri: `at://${commit.did}/${params.collection}/${params.rkey}`,
+                cid: record.cid,
+                value: record.value as globalThis.Record<string, unknown>,
+            }),
+            commit,
+        };
+    }
+
+    async list<K extends keyof Records>({ validate, ...params }: ListRecordsParams<K>, options?: RequestOptions): Promise<ListRecordsOutput<K>> {
         const response = await this.get('com.atproto.repo.listRecords', {
             as: 'json',
-            params
+            params,
+            signal: getSignal(options),
         });
 
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
 
-        return this.makeRecordsTyped<K, {
+        const output = this.makeRecordsTyped<K, {
             uri: ResourceUri;
             value: globalThis.Record<string, unknown>;
             cid: string;
         }>(response.data);
+
+        if (!validate) return output;
+
+        const records: typeof output.records = [];
+        const invalid: InvalidRecord[] = [];
+        for (const record of output.records) {
+            const result = validateRecord(validate.schema, record.value);
+            if (result.ok) {
+                records.push(record);
+                continue;
+            }
+
+            const mode = validate.mode ?? 'throw';
+            if (mode === 'throw') {
+                throw new RecordValidationError(params.collection, result.issues, result.message, { uri: record.uri.toString() });
+            }
+            if (mode === 'collect') {
+                invalid.push({ cid: record.cid, uri: record.uri, value: record.value, issues: result.issues });
+            }
+        }
+
+        return validate.mode === 'collect'
+            ? { ...output, records, invalid }
+            : { ...output, records };
     }
 
-    async put<K extends keyof Records>(params: PutRecordInput<K>) {
+    async put<K extends keyof Records>(params: PutRecordInput<K>, { schema, ...options }: WriteOptions<K> = {}) {
         const data = await this.post('com.atproto.repo.putRecord', {
-            input: params
+            input: { ...params, record: prepareRecord(params.collection, params.record, schema) },
+            signal: getSignal(options),
         });
 
         if (!data.ok) {
-            throw new XRPCError(data.data?.error || 'Unknown', data.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(data);
         }
 
         return data.data;
     }
 
-    async uploadBlob(buf: Uint8Array | globalThis.Blob) {
+    async uploadBlob(buf: Uint8Array | globalThis.Blob, options?: RequestOptions) {
         const data = await this.post('com.atproto.repo.uploadBlob', {
-            input: buf
+            input: buf,
+            signal: getSignal(options),
         });
 
         if (!data.ok) {
-            throw new XRPCError(data.data?.error || 'Unknown', data.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(data);
         }
 
         return data.data.blob;
     }
 
-    async trySwap<K extends keyof Records>(params: PutRecordInput<K>) {
+    async trySwap<K extends keyof Records>(params: PutRecordInput<K>, options?: WriteOptions<K>) {
         try {
-            await this.put(params);
+            await this.put(params, options);
             return true;
         } catch (err) {
             if (!isInvalidSwapError(err)) {
@@ -374,25 +787,83 @@ export class KittyAgent {
         }
     }
 
-    async create<K extends keyof Records>(params: CreateRecordInput<K>) {
+    /**
+     * Atomically updates a record: fetches it, applies `mutator` to its value and writes the result back, swapping
+     * against the fetched CID. If someone else wrote the record in the meantime, the cycle starts over, up to
+     * `maxAttempts` times. The mutator may therefore run several times and should not have side effects.
+     */
+    async update<K extends keyof Records>(
+        collection: K,
+        repo: ActorIdentifier,
+        rkey: RecordKey,
+        mutator: (current: v.InferInput<Records[K]>) => RecordInput<K>,
+        options?: UpdateRecordOptions<K> & { createIfMissing?: false }
+    ): Promise<ComAtprotoRepoPutRecord.$output & { value: RecordInput<K> }>;
+    async update<K extends keyof Records>(
+        collection: K,
+        repo: ActorIdentifier,
+        rkey: RecordKey,
+        mutator: (current: v.InferInput<Records[K]> | undefined) => RecordInput<K>,
+        options: UpdateRecordOptions<K> & { createIfMissing: true }
+    ): Promise<ComAtprotoRepoPutRecord.$output & { value: RecordInput<K> }>;
+    async update<K extends keyof Records>(
+        collection: K,
+        repo: ActorIdentifier,
+        rkey: RecordKey,
+        mutator: (current: v.InferInput<Records[K]> | undefined) => RecordInput<K>,
+        { maxAttempts = 5, createIfMissing = false, schema, ...options }: UpdateRecordOptions<K> = {}
+    ): Promise<ComAtprotoRepoPutRecord.$output & { value: RecordInput<K> }> {
+        const signal = getSignal(options);
+
+        for (let attempt = 1; ; attempt++) {
+            const current = createIfMissing
+                ? await this.tryGetRecord({ collection, repo, rkey }, { signal })
+                : await this.getRecord({ collection, repo, rkey }, { signal });
+
+            if (current.value !== undefined && current.cid === undefined) {
+                throw new Error(`cannot update ${collection}/${rkey}: the PDS did not return the record's CID`);
+            }
+
+            const value = mutator(current.value);
+
+            try {
+                const output = await this.put({
+                    collection,
+                    repo,
+                    rkey,
+                    record: value,
+                    // null asserts that the record doesn't exist yet
+                    swapRecord: current.cid ?? null,
+                }, { schema, signal });
+
+                return { ...output, value };
+            } catch (err) {
+                if (!isInvalidSwapError(err) || attempt >= maxAttempts) throw err;
+            }
+        }
+    }
+
+    async create<K extends keyof Records>(params: CreateRecordInput<K>, { schema, ...options }: WriteOptions<K> = {}) {
         const data = await this.post('com.atproto.repo.createRecord', {
-            input: params
+            input: { ...params, record: prepareRecord(params.collection, params.record, schema) },
+            signal: getSignal(options),
         });
 
         if (!data.ok) {
-            throw new XRPCError(data.data?.error || 'Unknown', data.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(data);
         }
 
         return data.data;
     }
 
-    async delete<K extends keyof Records>(params: DeleteRecordInput<K>) {
+    async delete<K extends keyof Records>(params: DeleteRecordInput<K>, options?: RequestOptions) {
         const data = await this.post('com.atproto.repo.deleteRecord', {
-            input: params
+            input: params,
+            signal: getSignal(options),
         });
 
         if (!data.ok) {
-            throw new XRPCError(data.data?.error || 'Unknown', data.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(data);
         }
 
         return data.data;
@@ -405,12 +876,16 @@ export class KittyAgent {
     >(
         limit: number | undefined,
         key: K,
-        query: (cursor: string | undefined, limit: number) => Promise<T>
+        query: (cursor: string | undefined, limit: number) => Promise<T>,
+        signal?: AbortSignal
     ): AsyncIterable<U, { cursor: string | undefined; }> {
         const PER_PAGE = 100;
 
         let cursor: string | undefined = undefined;
         do {
+            // the consumer may have taken a while with the previous page
+            throwIfAborted(signal);
+
             const data = await query(
                 cursor,
                 limit === undefined
@@ -433,29 +908,52 @@ export class KittyAgent {
         return { cursor };
     }
 
+    /**
+     * Lists every record in a collection. When validating in `collect` mode, records that failed validation are
+     * reported in the iterator's return value.
+     */
     paginatedList<K extends keyof Records>(params: {
         repo: ActorIdentifier,
         collection: K,
         reverse?: boolean,
         limit?: number;
-    }): PaginatedListRecordsOutput<K> {
-        return this.paginationHelper(
+        validate?: ListValidationOptions<K>;
+    }, options?: RequestOptions): PaginatedListRecordsOutput<K> {
+        const signal = getSignal(options);
+        const invalid: InvalidRecord[] = [];
+        const records: PaginatedListRecordsOutput<K> = this.paginationHelper(
             params.limit,
             'records',
-            async (cursor, limit) => await this.list({
-                repo: params.repo,
-                collection: params.collection,
-                limit,
-                reverse: params.reverse ?? true,
-                cursor
-            })
+            async (cursor, limit) => {
+                const page: ListRecordsOutput<K> = await this.list({
+                    repo: params.repo,
+                    collection: params.collection,
+                    limit,
+                    reverse: params.reverse ?? true,
+                    cursor,
+                    validate: params.validate,
+                }, { signal });
+
+                if (page.invalid) invalid.push(...page.invalid);
+
+                return page;
+            },
+            signal
         );
+
+        if (params.validate?.mode !== 'collect') return records;
+
+        return (async function* () {
+            const result = yield* records;
+            return { ...result, invalid };
+        })();
     }
 
     paginatedListBlobs(params: {
         did: Did,
         limit?: number;
-    }): AsyncIterable<string, { cursor?: string | undefined; }> {
+    }, options?: RequestOptions): AsyncIterable<string, { cursor?: string | undefined; }> {
+        const signal = getSignal(options);
         return this.paginationHelper(
             params.limit,
             'cids',
@@ -466,22 +964,25 @@ export class KittyAgent {
                         did: params.did,
                         limit,
                         cursor
-                    }
+                    },
+                    signal,
                 });
 
                 if (!response.ok) {
-                    throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+                    throw XRPCError.fromResponse(response);
                 }
 
                 return response.data;
-            }
+            },
+            signal
         );
     }
 
     paginatedListRepos(params: {
         did: Did,
         limit?: number;
-    }): AsyncIterable<ComAtprotoSyncListRepos.Repo, { cursor?: string | undefined; }> {
+    }, options?: RequestOptions): AsyncIterable<ComAtprotoSyncListRepos.Repo, { cursor?: string | undefined; }> {
+        const signal = getSignal(options);
         return this.paginationHelper(
             params.limit,
             'repos',
@@ -492,41 +993,160 @@ export class KittyAgent {
                         // did: params.did,
                         limit,
                         cursor
-                    }
+                    },
+                    signal,
                 });
 
                 if (!response.ok) {
-                    throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+                    throw XRPCError.fromResponse(response);
                 }
 
                 return response.data;
-            }
+            },
+            signal
         );
     }
 
-    async batchWrite(params: ComAtprotoRepoApplyWrites.$input) {
+    /**
+     * Downloads a whole repository with `com.atproto.sync.getRepo` and yields its records in key order. The iterator
+     * returns the repository's root commit once every record has been read.
+     */
+    async *exportRepo<K extends keyof Records = keyof Records>(
+        did: Did,
+        { stream = false, verify = true, collections, ...options }: ExportRepoOptions<K> = {}
+    ): AsyncGenerator<RepoRecord<K>, RepoCommit> {
+        const { car, dispose } = await this.openRepo(did, undefined, stream, getSignal(options));
+
+        try {
+            const records = readRepo(car, verify);
+            for (;;) {
+                const next = await records.next();
+                if (next.done) return next.value;
+
+                const record = next.value as RepoRecord<K>;
+                if (!collections || collections.includes(record.collection)) yield record;
+            }
+        } finally {
+            await dispose?.();
+        }
+    }
+
+    /**
+     * Yields the records that were created, updated or deleted in a repository since it was last synced into the
+     * same store, downloading only what changed with `com.atproto.sync.getRepo`'s `since` parameter. The first sync
+     * of a repository downloads all of it and yields every record as created.
+     *
+     * The new state is only saved once every event has been consumed, so stopping early means the same changes are
+     * yielded again on the next sync. The iterator returns the repository's new commit, or `undefined` if nothing
+     * changed.
+     */
+    async *syncRepo<K extends keyof Records = keyof Records>(
+        did: Did,
+        { store, stream = false, verify = true, collections, ...options }: SyncRepoOptions<K>
+    ): AsyncGenerator<RepoSyncEvent<K>, RepoCommit | undefined> {
+        const signal = getSignal(options);
+        const previous = await store.get(did);
+        const { car, dispose } = await this.openRepo(did, previous?.rev, stream, signal);
+
+        try {
+            const events = readRepoDiff(car, previous, async (collection, rkey, cid) => {
+                const record = await this.getRecord({ repo: did, collection, rkey, cid }, { signal });
+                return record.value;
+            }, verify);
+
+            for (;;) {
+                const next = await events.next();
+                if (next.done) {
+                    if (!next.value) return undefined;
+
+                    await store.set(did, next.value.state);
+                    return next.value.commit;
+                }
+
+                const event = next.value as RepoSyncEvent<K>;
+                if (!collections || collections.includes(event.collection)) yield event;
+            }
+        } finally {
+            await dispose?.();
+        }
+    }
+
+    private async openRepo(did: Did, since: string | undefined, stream: boolean, signal: AbortSignal | undefined) {
+        if (stream) {
+            const response = await this.get('com.atproto.sync.getRepo', {
+                as: 'stream',
+                params: { did, since },
+                signal,
+            });
+
+            if (!response.ok) {
+                throw XRPCError.fromResponse(response);
+            }
+
+            const reader = fromStream(response.data);
+            return {
+                car: { roots: await reader.roots(), entries: reader[Symbol.asyncIterator]() },
+                dispose: () => reader.dispose(),
+            };
+        }
+
+        const response = await this.get('com.atproto.sync.getRepo', {
+            as: 'bytes',
+            params: { did, since },
+            signal,
+        });
+
+        if (!response.ok) {
+            throw XRPCError.fromResponse(response);
+        }
+
+        const reader = fromUint8Array(response.data);
+        return {
+            car: { roots: reader.roots, entries: reader[Symbol.iterator]() },
+            dispose: undefined,
+        };
+    }
+
+    async batchWrite(params: ComAtprotoRepoApplyWrites.$input, { schemas = {}, ...options }: BatchWriteValidationOptions & RequestOptions = {}) {
+        const writes = params.writes.map((write, i) => {
+            if (!('value' in write)) return write;
+
+            const collection = write.collection as keyof Records;
+            const schema = schemas[collection] as RecordSchemaOf<typeof collection> | undefined;
+            return { ...write, value: prepareRecord(collection, write.value, schema, i) };
+        });
+
         const response = await this.post('com.atproto.repo.applyWrites', {
-            input: params
+            input: { ...params, writes },
+            signal: getSignal(options),
         });
 
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
 
         return response.data;
     }
 
-    async resolveHandle(handle: `${string}.${string}`): Promise<Did> {
+    /**
+     * Starts building a batch of writes to a repository, committed with {@link WriteTransaction.commit}.
+     */
+    transaction(repo: ActorIdentifier): WriteTransaction {
+        return new WriteTransaction(this, repo);
+    }
+
+    async resolveHandle(handle: `${string}.${string}`, options?: RequestOptions): Promise<Did> {
         if (handle.startsWith('did:')) return handle as Did;
 
         const response = await this.get('com.atproto.identity.resolveHandle', {
             params: {
                 handle
-            }
+            },
+            signal: getSignal(options),
         });
 
         if (!response.ok) {
-            throw new XRPCError(response.data?.error || 'Unknown', response.data?.message || 'An unknown error occurred');
+            throw XRPCError.fromResponse(response);
         }
 
         return response.data.did;
@@ -1,5 +1,6 @@
 // import { sha256 } from '@noble/hashes/sha256';
-import { type Cid, type CidLink, fromCidLink } from '@atcute/cid';
+import { type Cid, type CidLink, create as createCid, fromCidLink, toString as cidToString } from '@atcute/cid';
+import { encode } from '@atcute/cbor';
 import type { Blob } from '@atcute/lexicons';
 
 export async function isCidMatching(data: BufferSource, blob: Blob) {
@@ -30,6 +31,13 @@ function isEqualBytes(bytes1: Uint8Array, bytes2: Uint8Array): boolean {
     return true;
 }
 
+/**
+ * Computes the CID of a record from its JSON form, as returned by `com.atproto.repo.getRecord`.
+ */
+export async function getRecordCid(record: unknown): Promise<string> {
+    return cidToString(await createCid(0x71, encode(record)));
+}
+
 export function getSha256(cidOrBlob: Blob | CidLink | Cid) {
     if ('ref' in cidOrBlob) cidOrBlob = fromCidLink(cidOrBlob.ref);
     if ('$link' in cidOrBlob) cidOrBlob = fromCidLink(cidOrBlob);
@@ -1,24 +1,67 @@
 import { simpleFetchHandler } from "@atcute/client";import { KittyAgent } from "./agent.js";
-import type { ActorIdentifier, Did, Nsid, RecordKey, ResourceUri } from "@atcute/lexicons";
+import type { RetryOptions } from "./retry.js";
+import { headerMiddleware } from "./middleware.js";
+import { getSignal, type RequestOptions } from "./signal.js";
+import type { ActorIdentifier, Cid, Did, Nsid, RecordKey, ResourceUri } from "@atcute/lexicons";
 import type { Records } from "@atcute/lexicons/ambient";
-import type { UriString } from "@atproto/syntax";
+import type { AtUri, UriString } from "@atproto/syntax";
+import type * as v from '@atcute/lexicons/validations';
 import type { BlueMicrocosmLinksGetBacklinks } from "./lexicons/index.js";
+import type { RecordValidationOptions } from "./validation.js";
+import type { ResolveOptions } from "./handles/config.js";
+import type { SlingshotClient } from "./slingshot.js";
+import { isXRPCError } from "./errors.js";
+
+type LinkTarget = ResourceUri | Did;
+
+/** Errors a PDS responds with when the repository a backlink comes from is no longer available */
+const GONE_REPO_ERRORS = new Set(['RepoNotFound', 'RepoTakendown', 'RepoDeactivated']);
+
+/** Counts down the depth a path may reach, so recursive lexicons don't recurse forever */
+type PathDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+type LinkPathSuffix<T, Depth extends number> =
+    [Depth] extends [never]
+        ? never
+        : T extends LinkTarget
+            ? ''
+            : T extends readonly (infer U)[]
+                ? `[]${LinkPathSuffix<U, PathDepth[Depth]>}`
+                : T extends object
+                    ? { [K in keyof T & string]-?: `.${K}${LinkPathSuffix<NonNullable<T[K]>, PathDepth[Depth]>}` }[keyof T & string]
+                    : never;
+
+/**
+ * Every path inside a record of type `T` that Constellation indexes as a link, meaning it points at an at-uri
+ * (including the `uri` of strong refs) or a DID. Array items are written as `[]`, like `facets[].features[].did`.
+ */
+export type LinkPath<T> = LinkPathSuffix<T, 8> extends `.${infer Path}` ? Path : never;
+
+/**
+ * A Constellation link source, `collection:path`, where the path is checked against the collection's record schema
+ * with {@link LinkPath}. Paths that don't lead to a link, like `subject.cid` or a typo, are type errors.
+ */
+export type BacklinkSource<K extends keyof Records = keyof Records> =
+    K extends Nsid ? `${K}:${LinkPath<v.InferInput<Records[K]>>}` : never;
+
+/**
+ * A backlink along with the record it comes from.
+ */
+export interface HydratedBacklink<K extends keyof Records> {
+    did: Did;
+    collection: K;
+    rkey: RecordKey;
+    cid: Cid | undefined;
+    readonly uri: AtUri;
+    value: v.InferInput<Records[K]>;
+}
 
 export class ConstellationClient extends KittyAgent {
-    constructor({ userAgent, service }: { userAgent: string; service?: string }) {
+    constructor({ userAgent, service, retry }: { userAgent: string; service?: string; retry?: RetryOptions | false }) {
         super({
-            handler: simpleFetchHandler({
-                service: service ?? 'https://constellation.microcosm.blue',
-                fetch(input, init) {
-                    return fetch(input, {
-                        ...init,
-                        headers: {
-                            ...init?.headers,
-                            'User-Agent': userAgent,
-                        },
-                    });
-                },
-            })
+            retry,
+            handler: simpleFetchHandler({ service: service ?? 'https://constellation.microcosm.blue' }),
+            middleware: [headerMiddleware({ 'User-Agent': userAgent })],
         })
     }
 
@@ -31,12 +74,12 @@ export class ConstellationClient extends KittyAgent {
         cursor
     }: {
         subject: `at://${ActorIdentifier}/${Nsid}/${RecordKey}` | Did | UriString,
-        source: `${(keyof Records) & Nsid}:${string}`,
+        source: BacklinkSource,
         did?: Did[],
         limit?: number,
         reverse?: boolean,
         cursor?: string
-    }) {
+    }, options?: RequestOptions) {
         return await this.getSafe('blue.microcosm.links.getBacklinks', {
             as: 'json',
             params: {
@@ -46,7 +89,8 @@ export class ConstellationClient extends KittyAgent {
                 limit,
                 reverse,
                 cursor
-            }
+            },
+            signal: getSignal(options),
         });
     }
 
@@ -58,11 +102,12 @@ export class ConstellationClient extends KittyAgent {
         reverse
     }: {
         subject: `at://${ActorIdentifier}/${Nsid}/${RecordKey}` | Did | UriString,
-        source: `${(keyof Records) & Nsid}:${string}`,
+        source: BacklinkSource,
         did?: Did[],
         limit?: number,
         reverse?: boolean
-    }): AsyncIterable<BlueMicrocosmLinksGetBacklinks.LinkRecord, { cursor?: string | undefined; }> {
+    }, options?: RequestOptions): AsyncIterable<BlueMicrocosmLinksGetBacklinks.LinkRecord, { cursor?: string | undefined; }> {
+        const signal = getSignal(options);
         return this.paginationHelper(
             limit,
             'records',
@@ -74,8 +119,161 @@ export class ConstellationClient extends KittyAgent {
                     limit,
                     reverse,
                     cursor
-                });
-            }
+                }, { signal });
+            },
+            signal
         );
     }
+
+    /**
+     * Counts the links to a subject from records matching `source`, without listing them.
+     */
+    async getBacklinksCount({
+        subject,
+        source
+    }: {
+        subject: `at://${ActorIdentifier}/${Nsid}/${RecordKey}` | Did | UriString,
+        source: BacklinkSource
+    }, options?: RequestOptions) {
+        return await this.getSafe('blue.microcosm.links.getBacklinksCount', {
+            as: 'json',
+            params: {
+                subject: subject as UriString,
+                source
+            },
+            signal: getSignal(options),
+        });
+    }
+
+    /**
+     * Groups the records linking to `subject` at `source` by what they link to at `pathToOther`, counting the links
+     * and distinct accounts for each secondary subject. The endpoint takes no cursor, so only the first `limit`
+     * groups are returned.
+     */
+    async getManyToManyCounts<K extends (keyof Records) & Nsid>({
+        subject,
+        source,
+        pathToOther,
+        did,
+        otherSubject,
+        limit
+    }: {
+        subject: `at://${ActorIdentifier}/${Nsid}/${RecordKey}` | Did | UriString,
+        // the template literal only lets K be inferred from the source
+        source: BacklinkSource<K> & `${K}:${string}`,
+        /** Path to the secondary link in the same record, checked like the path of `source` */
+        pathToOther: LinkPath<v.InferInput<Records[K]>>,
+        did?: Did[],
+        otherSubject?: string[],
+        limit?: number
+    }, options?: RequestOptions) {
+        return await this.getSafe('blue.microcosm.links.getManyToManyCounts', {
+            as: 'json',
+            params: {
+                subject: subject as UriString,
+                source,
+                pathToOther,
+                did,
+                otherSubject,
+                limit
+            },
+            signal: getSignal(options),
+        });
+    }
+
+    /**
+     * Like {@link getAllBacklinks}, but fetches the record behind each backlink, keeping up to `concurrency` requests
+     * in flight while yielding records in the order of the backlinks. Records are fetched from each author's PDS, or
+     * from Slingshot if a client is given. Records that have been deleted since they were indexed are skipped, as are
+     * records of accounts that can't be resolved or whose repositories are gone, taken down or deactivated, and
+     * records failing validation with `validate.mode` set to `skip`. Breaking out of the loop aborts the fetches still
+     * in flight.
+     */
+    async *getAllBacklinkRecords<K extends (keyof Records) & Nsid>({
+        subject,
+        source,
+        did,
+        limit,
+        reverse,
+        concurrency = 8,
+        slingshot,
+        validate,
+        resolve
+    }: {
+        subject: `at://${ActorIdentifier}/${Nsid}/${RecordKey}` | Did | UriString,
+        // the template literal only lets K be inferred from the source
+        source: BacklinkSource<K> & `${K}:${string}`,
+        did?: Did[],
+        limit?: number,
+        reverse?: boolean,
+        /** How many records to fetch at once. Defaults to 8. */
+        concurrency?: number,
+        /** Fetch records from Slingshot's cache instead of each author's PDS */
+        slingshot?: SlingshotClient,
+        validate?: RecordValidationOptions<K> & { mode?: 'throw' | 'skip' },
+        /** How authors' PDSes are found when not using Slingshot */
+        resolve?: ResolveOptions
+    }, options?: RequestOptions): AsyncGenerator<HydratedBacklink<K>, { cursor?: string | undefined; }> {
+        if (!(concurrency >= 1)) {
+            throw new RangeError(`concurrency must be at least 1, got ${concurrency}`);
+        }
+
+        const signal = getSignal(options);
+        const links = this.getAllBacklinks({ subject, source, did, limit, reverse }, { signal })[Symbol.asyncIterator]();
+
+        // aborted once the consumer stops iterating, so fetches that won't be yielded don't keep running
+        const stopped = new AbortController();
+        const hydrateSignal = signal ? AbortSignal.any([signal, stopped.signal]) : stopped.signal;
+
+        const hydrate = async (link: BlueMicrocosmLinksGetBacklinks.LinkRecord): Promise<HydratedBacklink<K> | undefined> => {
+            const collection = link.collection as K;
+
+            let agent: KittyAgent;
+            try {
+                agent = slingshot ?? await KittyAgent.getOrCreatePds(link.did, resolve);
+            } catch {
+                // the account was deleted or its identity is broken, so its records are as good as deleted
+                return undefined;
+            }
+
+            let record;
+            try {
+                record = await agent.tryGetRecord({ repo: link.did, collection, rkey: link.rkey, validate }, { signal: hydrateSignal });
+            } catch (err) {
+                if (isXRPCError(err) && GONE_REPO_ERRORS.has(err.kind)) return undefined;
+                throw err;
+            }
+            if (record.uri === undefined) return undefined;
+
+            return { did: link.did, collection, rkey: link.rkey, cid: record.cid, uri: record.uri, value: record.value };
+        };
+
+        const pending: Promise<HydratedBacklink<K> | undefined>[] = [];
+        let result: { cursor?: string | undefined; } | undefined;
+        try {
+            for (;;) {
+                while (result === undefined && pending.length < concurrency) {
+                    const next = await links.next();
+                    if (next.done) {
+                        result = next.value;
+                        break;
+                    }
+
+                    const promise = hydrate(next.value);
+                    // rejections are rethrown when the record's turn comes, this only silences them until then
+                    promise.catch(() => {});
+                    pending.push(promise);
+                }
+
+                const promise = pending.shift();
+                if (!promise) return result!;
+
+                const record = await promise;
+                if (record) yield record;
+            }
+        } finally {
+            stopped.abort();
+            if (result === undefined) await links.return?.();
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import type { FailedClientResponse } from "@atcute/client";
+import type { RetryAttempt } from "./retry.js";
+
+export interface XRPCRequestContext {
+    /** HTTP method the request was made with */
+    method: 'get' | 'post';
+    /** NSID of the query or procedure */
+    nsid: string;
+    /** query string parameters */
+    params?: { [key: string]: unknown };
+}
+
+export interface RateLimitInfo {
+    /** Maximum number of requests allowed in the current window */
+    limit?: number;
+    /** Number of requests left in the current window */
+    remaining?: number;
+    /** When the current window resets */
+    reset?: Date;
+    /** Raw `ratelimit-policy` header, e.g. `3000;w=300` */
+    policy?: string;
+}
+
+export interface XRPCErrorOptions {
+    status?: number;
+    headers?: Headers;
+    context?: XRPCRequestContext;
+    attempts?: RetryAttempt[];
+}
+
+const responseContexts = new WeakMap<object, { context: XRPCRequestContext; attempts: RetryAttempt[] }>();
+
+/**
+ * Associates a failed response with the request that produced it, so {@link XRPCError.fromResponse} can report it.
+ * @private
+ */
+export function setResponseContext(response: object, context: XRPCRequestContext, attempts: RetryAttempt[]) {
+    responseContexts.set(response, { context, attempts });
+}
+
+export class XRPCError<K extends string = string> extends Error {
+    override name = 'XRPCError';
+
+    /** XRPC error name returned by the service, e.g. `RecordNotFound` */
+    kind: K;
+    /** HTTP status of the response, if one was received */
+    readonly status: number | undefined;
+    /** Response headers */
+    readonly headers: Headers;
+    /** NSID of the failed request, if known */
+    readonly nsid: string | undefined;
+    /** Query parameters of the failed request, if known */
+    readonly params: { [key: string]: unknown } | undefined;
+    /** Every attempt made for the failed request, if it was retried */
+    attempts: RetryAttempt[];
+
+    constructor(kind: K, message: string, { status, headers, context, attempts = [] }: XRPCErrorOptions = {}) {
+        super(message);
+        this.kind = kind;
+        this.status = status;
+        this.headers = headers ?? new Headers();
+        this.nsid = context?.nsid;
+        this.params = context?.params;
+        this.attempts = attempts;
+    }
+
+    /**
+     * Rate limit information sent along with the response, if any.
+     */
+    get rateLimit(): RateLimitInfo | undefined {
+        const limit = this.headers.get('ratelimit-limit');
+        const remaining = this.headers.get('ratelimit-remaining');
+        const reset = this.headers.get('ratelimit-reset');
+        const policy = this.headers.get('ratelimit-policy');
+
+        if (limit === null && remaining === null && reset === null && policy === null) return undefined;
+
+        return {
+            limit: limit !== null ? Number(limit) : undefined,
+            remaining: remaining !== null ? Number(remaining) : undefined,
+            reset: reset !== null ? new Date(Number(reset) * 1000) : undefined,
+            policy: policy ?? undefined,
+        };
+    }
+
+    /**
+     * Creates an error from a failed response, picking the matching subclass for well-known error names.
+     */
+    static fromResponse(response: FailedClientResponse): XRPCError {
+        const kind = response.data?.error || 'Unknown';
+        const message = response.data?.message || 'An unknown error occurred';
+        const { context, attempts } = responseContexts.get(response) ?? {};
+
+        const ErrorClass = errorClasses[kind as KnownErrorKind] ?? XRPCError;
+        return new ErrorClass(kind as never, message, {
+            status: response.status,
+            headers: response.headers,
+            context,
+            attempts,
+        });
+    }
+}
+
+export class RecordNotFoundError extends XRPCError<'RecordNotFound'> {
+    override name = 'RecordNotFoundError';
+}
+
+export class InvalidSwapError extends XRPCError<'InvalidSwap'> {
+    override name = 'InvalidSwapError';
+}
+
+export class ExpiredTokenError extends XRPCError<'ExpiredToken'> {
+    override name = 'ExpiredTokenError';
+}
+
+export class AuthRequiredError extends XRPCError<'AuthRequired'> {
+    override name = 'AuthRequiredError';
+}
+
+export class RateLimitExceededError extends XRPCError<'RateLimitExceeded'> {
+    override name = 'RateLimitExceededError';
+}
+
+export class RepoNotFoundError extends XRPCError<'RepoNotFound'> {
+    override name = 'RepoNotFoundError';
+}
+
+export class RepoTakendownError extends XRPCError<'RepoTakendown'> {
+    override name = 'RepoTakendownError';
+}
+
+const errorClasses = {
+    RecordNotFound: RecordNotFoundError,
+    InvalidSwap: InvalidSwapError,
+    ExpiredToken: ExpiredTokenError,
+    AuthRequired: AuthRequiredError,
+    RateLimitExceeded: RateLimitExceededError,
+    RepoNotFound: RepoNotFoundError,
+    RepoTakendown: RepoTakendownError,
+};
+
+type KnownErrorKind = keyof typeof errorClasses;
+
+function isErrorOfKind<K extends KnownErrorKind>(err: unknown, kind: K): err is XRPCError<K> {
+    return err instanceof XRPCError && err.kind === kind;
+}
+
+export function isXRPCError(err: unknown): err is XRPCError {
+    return err instanceof XRPCError;
+}
+
+export function isInvalidSwapError(err: unknown) {
+    return isErrorOfKind(err, 'InvalidSwap');
+}
+
+export function isRecordNotFoundError(err: unknown) {
+    return isErrorOfKind(err, 'RecordNotFound');
+}
+
+export function isExpiredTokenError(err: unknown) {
+    return isErrorOfKind(err, 'ExpiredToken');
+}
+
+export function isAuthRequiredError(err: unknown) {
+    return isErrorOfKind(err, 'AuthRequired');
+}
+
+export function isRateLimitExceededError(err: unknown) {
+    return isErrorOfKind(err, 'RateLimitExceeded');
+}
+
+export function isRepoNotFoundError(err: unknown) {
+    return isErrorOfKind(err, 'RepoNotFound');
+}
+
+export function isRepoTakendownError(err: unknown) {
+    return isErrorOfKind(err, 'RepoTakendown');
+}
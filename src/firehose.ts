@@ -0,0 +1,273 @@
+import type { ComAtprotoSyncSubscribeRepos } from '@atcute/atproto';
+import { fromUint8Array, type CarEntry } from "@atcute/car";
+import { decode, decodeFirst, fromBytes } from "@atcute/cbor";
+import * as CID from "@atcute/cid";
+import type { Cid, Did, Nsid, RecordKey } from "@atcute/lexicons";
+import type { Records } from "@atcute/lexicons/ambient";
+import type * as v from '@atcute/lexicons/validations';
+import { AtUri } from "@atproto/syntax";
+import { readRepoCommit, RepoVerificationError, type RepoCommit } from "./repo.js";
+import { RetryPolicy, type RetryOptions } from "./retry.js";
+import { getSignal, type RequestOptions } from "./signal.js";
+import { readSocket, reconnecting } from "./subscription.js";
+
+/**
+ * A record operation of a firehose commit, with the record unpacked from the commit's blocks.
+ */
+export type FirehoseOperation<K extends keyof Records = keyof Records> = {
+    [C in K]:
+        | { action: 'create'; collection: C; rkey: RecordKey; cid: Cid; record: v.InferInput<Records[C]>; readonly uri: AtUri }
+        | { action: 'update'; collection: C; rkey: RecordKey; cid: Cid; prev?: Cid; record: v.InferInput<Records[C]>; readonly uri: AtUri }
+        | { action: 'delete'; collection: C; rkey: RecordKey; prev?: Cid; readonly uri: AtUri }
+}[K];
+
+export interface FirehoseCommit {
+    $type: 'com.atproto.sync.subscribeRepos#commit';
+    seq: number;
+    repo: Did;
+    rev: string;
+    since: string | null;
+    time: string;
+    tooBig: boolean;
+    rebase: boolean;
+    /** CID of the commit */
+    commit: Cid;
+    /** CID of the root of the MST before this commit */
+    prevData?: Cid;
+    blobs: Cid[];
+    /** Record operations in the commit. Always empty if `tooBig` is set, in which case the repository must be synced. */
+    ops: FirehoseOperation[];
+    /** The commit's blocks as a CAR */
+    blocks: Uint8Array;
+}
+
+export interface FirehoseSync {
+    $type: 'com.atproto.sync.subscribeRepos#sync';
+    seq: number;
+    did: Did;
+    rev: string;
+    time: string;
+    /** The repository's current commit, which consumers should resync from */
+    commit: RepoCommit;
+    /** The commit block as a CAR */
+    blocks: Uint8Array;
+}
+
+export type FirehoseIdentity = ComAtprotoSyncSubscribeRepos.Identity & { $type: 'com.atproto.sync.subscribeRepos#identity' };
+export type FirehoseAccount = ComAtprotoSyncSubscribeRepos.Account & { $type: 'com.atproto.sync.subscribeRepos#account' };
+export type FirehoseInfo = ComAtprotoSyncSubscribeRepos.Info & { $type: 'com.atproto.sync.subscribeRepos#info' };
+
+export type FirehoseMessage = FirehoseCommit | FirehoseSync | FirehoseIdentity | FirehoseAccount | FirehoseInfo;
+
+export interface FirehoseOptions {
+    /** Base URL of the relay or PDS. Defaults to `wss://bsky.network`. */
+    service?: string;
+    /** Replay from this sequence number instead of the live tail */
+    cursor?: number;
+    /**
+     * How to reconnect after the connection drops. `maxAttempts` counts consecutive failed connections and defaults
+     * to unlimited; `retryableStatuses` and `retryWrites` don't apply. Set to `false` to never reconnect.
+     */
+    retry?: RetryOptions | false;
+    /** Check the blocks records and commits are read from against their CIDs. Defaults to true. */
+    verify?: boolean;
+    /** WebSocket implementation, for runtimes without a global `WebSocket`. Defaults to `globalThis.WebSocket`. */
+    webSocket?: new (url: string) => WebSocket;
+    /**
+     * Called for commit and sync messages whose blocks are missing or fail verification. These messages are skipped
+     * rather than ending the subscription.
+     */
+    onInvalidMessage?: (error: RepoVerificationError, seq: number) => void;
+}
+
+/**
+ * An error frame sent by the server, such as `FutureCursor` or `ConsumerTooSlow`. The server closes the connection
+ * after sending one, so these end the subscription.
+ */
+export class FirehoseError extends Error {
+    override name = 'FirehoseError';
+
+    constructor(readonly error: string, message?: string) {
+        super(message ? `${error}: ${message}` : error);
+    }
+}
+
+/**
+ * Client for the raw `com.atproto.sync.subscribeRepos` firehose of a relay or PDS.
+ *
+ * The client tracks the `seq` of the last message it yielded, so after a dropped connection it resumes where it left
+ * off.
+ */
+export class FirehoseClient {
+    private readonly service: string;
+    private readonly policy: RetryPolicy | undefined;
+    private readonly webSocket: new (url: string) => WebSocket;
+    private readonly verify: boolean;
+    private readonly onInvalidMessage: FirehoseOptions['onInvalidMessage'];
+    private _cursor: number | undefined;
+
+    constructor(options: FirehoseOptions = {}) {
+        this.service = options.service ?? 'wss://bsky.network';
+        this.policy = options.retry === false ? undefined : new RetryPolicy({ maxAttempts: Infinity, ...options.retry });
+        this.webSocket = options.webSocket ?? globalThis.WebSocket;
+        this.verify = options.verify ?? true;
+        this.onInvalidMessage = options.onInvalidMessage;
+        this._cursor = options.cursor;
+    }
+
+    /** Sequence number of the last message yielded, to resume from later */
+    get cursor() {
+        return this._cursor;
+    }
+
+    /** URL to connect to, including the current cursor */
+    get url() {
+        const url = new URL('/xrpc/com.atproto.sync.subscribeRepos', this.service);
+        if (this._cursor !== undefined) {
+            url.searchParams.set('cursor', String(this._cursor));
+        }
+        return url.toString();
+    }
+
+    /**
+     * Connects to the firehose and yields its messages until aborted, reconnecting whenever the connection drops.
+     * Messages of unknown types and messages that fail verification are skipped. Breaking out of the loop closes the
+     * connection.
+     */
+    async *subscribe(options?: RequestOptions): AsyncGenerator<FirehoseMessage, void> {
+        const signal = getSignal(options);
+
+        const frames = reconnecting(this.policy, signal, () => readSocket(new this.webSocket(this.url), signal));
+
+        for await (const frame of frames) {
+            if (typeof frame === 'string') continue;
+
+            const message = await this.decodeFrame(frame);
+            if (!message) continue;
+
+            if ('seq' in message) this._cursor = message.seq;
+            yield message;
+        }
+    }
+
+    private async decodeFrame(frame: Uint8Array): Promise<FirehoseMessage | undefined> {
+        const [header, remainder] = decodeFirst(frame);
+        const body = decode(remainder);
+
+        if (header.op === -1) {
+            throw new FirehoseError(body.error, body.message);
+        }
+        if (header.op !== 1) return undefined;
+
+        switch (header.t) {
+            case '#commit':
+                return await this.skipInvalid(body.seq, () => this.decodeCommit(body));
+            case '#sync':
+                return await this.skipInvalid(body.seq, () => this.decodeSync(body));
+            case '#identity':
+                return { ...body, $type: 'com.atproto.sync.subscribeRepos#identity' };
+            case '#account':
+                return { ...body, $type: 'com.atproto.sync.subscribeRepos#account' };
+            case '#info':
+                return { ...body, $type: 'com.atproto.sync.subscribeRepos#info' };
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Reports and skips a message that fails verification, moving the cursor past it, so one bad message doesn't end
+     * the subscription.
+     */
+    private async skipInvalid<T>(seq: number, decode: () => Promise<T>): Promise<T | undefined> {
+        try {
+            return await decode();
+        } catch (err) {
+            if (!(err instanceof RepoVerificationError)) throw err;
+
+            this._cursor = seq;
+            this.onInvalidMessage?.(err, seq);
+            return undefined;
+        }
+    }
+
+    private async decodeSync(body: ComAtprotoSyncSubscribeRepos.Sync): Promise<FirehoseSync> {
+        const blocks = fromBytes(body.blocks);
+        const car = fromUint8Array(blocks);
+        return {
+            $type: 'com.atproto.sync.subscribeRepos#sync',
+            seq: body.seq,
+            did: body.did,
+            rev: body.rev,
+            time: body.time,
+            commit: await readRepoCommit({ roots: car.roots, entries: car[Symbol.iterator]() }, this.verify),
+            blocks,
+        };
+    }
+
+    private async decodeCommit(body: ComAtprotoSyncSubscribeRepos.Commit): Promise<FirehoseCommit> {
+        const blocks = fromBytes(body.blocks);
+        const entries = new Map<string, CarEntry>();
+        for (const entry of fromUint8Array(blocks)) {
+            entries.set(CID.toString(entry.cid), entry);
+        }
+
+        const readRecord = async (cid: Cid) => {
+            const entry = entries.get(cid);
+            if (!entry) {
+                throw new RepoVerificationError(`block ${cid} is missing from commit ${body.seq}`);
+            }
+            if (this.verify && !CID.equals(await CID.create(entry.cid.codec as 0x55 | 0x71, entry.bytes), entry.cid)) {
+                throw new RepoVerificationError(`block ${cid} does not match its CID`);
+            }
+            return decode(entry.bytes);
+        };
+
+        const ops: FirehoseOperation[] = [];
+        for (const op of body.tooBig ? [] : body.ops) {
+            if (op.action !== 'create' && op.action !== 'update' && op.action !== 'delete') continue;
+
+            const path = op.path;
+            const slash = path.indexOf('/');
+            const collection = path.slice(0, slash) as Nsid as keyof Records;
+            const rkey = path.slice(slash + 1) as RecordKey;
+
+            let memoizedAtUri: AtUri | undefined;
+            const did = body.repo;
+            const base = {
+                collection,
+                rkey,
+                get uri() {
+                    return memoizedAtUri ??= new AtUri(`at://${did}/${path}`);
+                },
+            };
+
+            if (op.action === 'delete') {
+                ops.push(Object.assign(base, { action: op.action, prev: op.prev?.$link }) as FirehoseOperation);
+            } else {
+                if (!op.cid) {
+                    throw new RepoVerificationError(`${op.action} of ${path} has no CID in commit ${body.seq}`);
+                }
+                const cid = op.cid.$link;
+                const record = await readRecord(cid);
+                ops.push(Object.assign(base, { action: op.action, cid, prev: op.prev?.$link, record }) as FirehoseOperation);
+            }
+        }
+
+        return {
+            $type: 'com.atproto.sync.subscribeRepos#commit',
+            seq: body.seq,
+            repo: body.repo,
+            rev: body.rev,
+            since: body.since ?? null,
+            time: body.time,
+            tooBig: body.tooBig,
+            rebase: body.rebase,
+            commit: body.commit.$link,
+            prevData: body.prevData?.$link,
+            blobs: (body.blobs ?? []).map(blob => blob.$link),
+            ops,
+            blocks,
+        };
+    }
+}
@@ -0,0 +1,244 @@
+import { buildFetchHandler, type FetchHandler, type FetchHandlerObject } from "@atcute/client";
+import { fromBase64, toBase64 } from "@atcute/multibase";
+
+/**
+ * A request or response body. JSON and text are kept readable so fixtures can be reviewed and edited by hand, anything
+ * else (such as blobs from `getBlob`) is base64-encoded.
+ */
+export type XRPCFixtureBody =
+    | { json: unknown }
+    | { text: string }
+    | { base64: string };
+
+export interface XRPCFixtureEntry {
+    nsid: string;
+    method: string;
+    /** Query parameters, with repeated parameters as arrays */
+    params: { [key: string]: string | string[] };
+    input?: XRPCFixtureBody & { contentType?: string };
+    response: {
+        status: number;
+        headers: { [key: string]: string };
+        body?: XRPCFixtureBody;
+    };
+}
+
+/**
+ * Recorded XRPC traffic. This is plain JSON, so it can be written to a file with `JSON.stringify` as is.
+ */
+export interface XRPCFixture {
+    entries: XRPCFixtureEntry[];
+}
+
+export interface RecordingHandlerOptions {
+    /** Called after every recorded call, to save the fixture as it grows */
+    onRecord?: (fixture: XRPCFixture) => unknown;
+}
+
+export interface ReplayHandlerOptions {
+    /**
+     * Fail on calls that don't match an unused entry of the fixture, and replay every entry at most once. Otherwise,
+     * entries can be replayed repeatedly, and unmatched calls go to `fallback`. Defaults to true.
+     */
+    strict?: boolean;
+    /** Handles calls that aren't in the fixture when not strict. Without one, they get a 501 response. */
+    fallback?: FetchHandler | FetchHandlerObject;
+    /** Query parameters that don't need to match, like timestamps or cursors that change between runs */
+    ignoreParams?: readonly string[];
+    /** Replaces the default matching of method, NSID, query parameters and input */
+    match?: (entry: XRPCFixtureEntry, call: XRPCFixtureCall) => boolean;
+}
+
+/** A call to a {@link ReplayHandler}, in the form it's matched against fixture entries */
+export interface XRPCFixtureCall {
+    nsid: string;
+    method: string;
+    params: XRPCFixtureEntry['params'];
+    input?: XRPCFixtureBody;
+}
+
+export class FixtureMismatchError extends Error {
+    override name = 'FixtureMismatchError';
+}
+
+const textDecoder = new TextDecoder();
+
+/** Headers describing the encoding of the body as it was sent, which no longer apply once it's been decoded */
+const UNREPLAYABLE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+function parseCall(pathname: string, init: RequestInit) {
+    const url = new URL(pathname, 'http://fixture.invalid');
+    const params: XRPCFixtureEntry['params'] = {};
+    for (const key of new Set(url.searchParams.keys())) {
+        const values = url.searchParams.getAll(key);
+        params[key] = values.length === 1 ? values[0] : values;
+    }
+
+    return {
+        nsid: url.pathname.replace(/^\/xrpc\//, ''),
+        method: (init.method ?? 'GET').toUpperCase(),
+        params,
+    };
+}
+
+function encodeBody(bytes: Uint8Array, contentType: string | null): XRPCFixtureBody | undefined {
+    if (!bytes.length) return undefined;
+
+    if (contentType?.startsWith('application/json')) {
+        const text = textDecoder.decode(bytes);
+        try {
+            return { json: JSON.parse(text) };
+        } catch {
+            // kept as is, so a server sending broken JSON can still be replayed
+            return { text };
+        }
+    }
+    if (contentType?.startsWith('text/')) {
+        return { text: textDecoder.decode(bytes) };
+    }
+    return { base64: toBase64(bytes) };
+}
+
+/** Identifies a body for matching, regardless of how it was encoded */
+function bodyKey(body: XRPCFixtureBody | undefined): string {
+    if (!body) return '';
+    if ('json' in body) return `json:${JSON.stringify(body.json)}`;
+    if ('text' in body) return `text:${body.text}`;
+    return `base64:${body.base64}`;
+}
+
+function decodeBody(body: XRPCFixtureBody | undefined): Uint8Array<ArrayBuffer> | string | null {
+    if (!body) return null;
+    if ('json' in body) return JSON.stringify(body.json);
+    if ('text' in body) return body.text;
+    return fromBase64(body.base64);
+}
+
+/**
+ * Wraps a handler to record every call made through it into an {@link XRPCFixture}, which a {@link ReplayHandler}
+ * can play back later.
+ *
+ * ```ts
+ * const recorder = new RecordingHandler(simpleFetchHandler({ service: 'https://bsky.social' }), {
+ *     onRecord: fixture => writeFileSync('fixture.json', JSON.stringify(fixture, null, 2)),
+ * });
+ * const agent = new KittyAgent({ handler: recorder });
+ * ```
+ *
+ * Request headers aren't recorded, so credentials don't end up in fixtures.
+ */
+export class RecordingHandler implements FetchHandlerObject {
+    readonly fixture: XRPCFixture = { entries: [] };
+    private readonly handler: FetchHandler;
+
+    constructor(handler: FetchHandler | FetchHandlerObject, private readonly options: RecordingHandlerOptions = {}) {
+        this.handler = buildFetchHandler(handler);
+    }
+
+    async handle(pathname: string, init: RequestInit): Promise<Response> {
+        // the body is read up front, since a stream could only be read once
+        const request = new Request(new URL(pathname, 'http://fixture.invalid'), init);
+        const input = new Uint8Array(await request.arrayBuffer());
+        const inputType = request.headers.get('content-type');
+
+        const response = await this.handler(pathname, { ...init, body: init.body != null ? input : init.body });
+        const output = new Uint8Array(await response.clone().arrayBuffer());
+
+        const inputBody = encodeBody(input, inputType);
+        this.fixture.entries.push({
+            ...parseCall(pathname, init),
+            input: inputBody && { ...inputBody, contentType: inputType ?? undefined },
+            response: {
+                status: response.status,
+                headers: Object.fromEntries([...response.headers].filter(([name]) => !UNREPLAYABLE_HEADERS.has(name))),
+                body: encodeBody(output, response.headers.get('content-type')),
+            },
+        });
+
+        await this.options.onRecord?.(this.fixture);
+
+        return response;
+    }
+
+    toJSON(): XRPCFixture {
+        return this.fixture;
+    }
+}
+
+/**
+ * A handler that answers calls from an {@link XRPCFixture} recorded by a {@link RecordingHandler}, without a network.
+ * Calls are matched to entries by method, NSID, query parameters and input, in the order they were recorded.
+ *
+ * ```ts
+ * const agent = new KittyAgent({ handler: new ReplayHandler(JSON.parse(readFileSync('fixture.json', 'utf8'))) });
+ * ```
+ */
+export class ReplayHandler implements FetchHandlerObject {
+    private readonly used = new Set<XRPCFixtureEntry>();
+    private readonly fallback: FetchHandler | undefined;
+
+    constructor(readonly fixture: XRPCFixture, private readonly options: ReplayHandlerOptions = {}) {
+        this.fallback = options.fallback && buildFetchHandler(options.fallback);
+    }
+
+    /** Entries that haven't been replayed yet */
+    get unused(): XRPCFixtureEntry[] {
+        return this.fixture.entries.filter(entry => !this.used.has(entry));
+    }
+
+    /**
+     * Throws if some entries were never replayed, to check that the code under test made every call it was recorded
+     * making.
+     */
+    assertAllUsed() {
+        const unused = this.unused;
+        if (unused.length) {
+            throw new FixtureMismatchError(`${unused.length} recorded calls were not made, starting with ${unused[0].method} ${unused[0].nsid}`);
+        }
+    }
+
+    async handle(pathname: string, init: RequestInit): Promise<Response> {
+        const { strict = true } = this.options;
+
+        // the body is read up front like when recording, and passed on as bytes to the fallback
+        const request = new Request(new URL(pathname, 'http://fixture.invalid'), init);
+        const input = new Uint8Array(await request.arrayBuffer());
+        const call: XRPCFixtureCall = {
+            ...parseCall(pathname, init),
+            input: encodeBody(input, request.headers.get('content-type')),
+        };
+
+        const candidates = this.fixture.entries.filter(entry => this.matches(entry, call));
+        const entry = candidates.find(entry => !this.used.has(entry)) ?? (strict ? undefined : candidates.at(-1));
+
+        if (!entry) {
+            if (strict) {
+                throw new FixtureMismatchError(`unexpected call to ${call.method} ${call.nsid} with ${JSON.stringify(call.params)}`);
+            }
+            if (this.fallback) {
+                return await this.fallback(pathname, { ...init, body: init.body != null ? input : init.body });
+            }
+            return Response.json({ error: 'MethodNotImplemented', message: `${call.nsid} is not in the fixture` }, { status: 501 });
+        }
+
+        this.used.add(entry);
+
+        const { status, headers, body } = entry.response;
+        return new Response(decodeBody(body), { status, headers });
+    }
+
+    private matches(entry: XRPCFixtureEntry, call: XRPCFixtureCall) {
+        if (this.options.match) return this.options.match(entry, call);
+        if (entry.method !== call.method || entry.nsid !== call.nsid) return false;
+        if (bodyKey(entry.input) !== bodyKey(call.input)) return false;
+
+        const ignored = new Set(this.options.ignoreParams);
+        const keys = new Set([...Object.keys(entry.params), ...Object.keys(call.params)]);
+        for (const key of keys) {
+            if (ignored.has(key)) continue;
+            if (JSON.stringify(entry.params[key]) !== JSON.stringify(call.params[key])) return false;
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,70 @@
+import type { CachedResolveOptions, IdentityCache } from "../identity-cache.js";
+import { getSignal } from "../signal.js";
+import type { SlingshotClient } from "../slingshot.js";
+
+/**
+ * Where and how handles and DIDs are resolved. Resolutions are cached by handle or DID only, so configurations that
+ * can disagree with each other, like ones using different PLC directories, should each be used with their own
+ * {@link IdentityCache} through the `cache` option.
+ */
+export interface ResolverConfig {
+    /** Base URL of the PLC directory did:plc documents are fetched from. Defaults to `https://plc.directory`. */
+    plcDirectory?: string;
+    /**
+     * DNS-over-HTTPS endpoints answering `application/dns-json` queries, tried in order until one responds. Defaults
+     * to Cloudflare's.
+     */
+    dohUrls?: readonly string[];
+    /** `fetch` implementation used for every request made while resolving */
+    fetch?: typeof globalThis.fetch;
+    /** Timeout of each request made while resolving, in milliseconds. Unlimited by default. */
+    timeout?: number;
+    /**
+     * Resolves handles and DIDs through Slingshot instead of the PLC directory, DNS and `did:web` hosts, which makes
+     * the other options unused. DID documents are then rebuilt from Slingshot's mini documents, so they only contain
+     * the handle, PDS and signing key.
+     */
+    slingshot?: Pick<SlingshotClient, 'resolveMiniDoc'>;
+}
+
+export interface ResolveOptions extends CachedResolveOptions {
+    /**
+     * Overrides options of the default configuration, see {@link setDefaultResolverConfig}. Options left out are taken
+     * from the default configuration.
+     */
+    resolver?: ResolverConfig;
+}
+
+const DEFAULT_PLC_DIRECTORY = 'https://plc.directory';
+const DEFAULT_DOH_URLS: readonly string[] = ['https://mozilla.cloudflare-dns.com/dns-query'];
+
+let defaultResolverConfig: ResolverConfig = {};
+
+/** Gets the configuration used by identity resolution when no other configuration is passed */
+export function getDefaultResolverConfig() {
+    return defaultResolverConfig;
+}
+
+/** Replaces the configuration used by identity resolution when no other configuration is passed */
+export function setDefaultResolverConfig(config: ResolverConfig) {
+    defaultResolverConfig = config;
+}
+
+/**
+ * Fills in the defaults of a resolver configuration, taking options it leaves out from the default configuration.
+ * @private
+ */
+export function getResolverConfig(overrides?: ResolverConfig) {
+    const config = { ...defaultResolverConfig, ...overrides };
+    return {
+        plcDirectory: config.plcDirectory ?? DEFAULT_PLC_DIRECTORY,
+        dohUrls: config.dohUrls ?? DEFAULT_DOH_URLS,
+        slingshot: config.slingshot,
+        fetch: (input: string | URL, init?: RequestInit) => {
+            const fetch = config.fetch ?? globalThis.fetch;
+            // the timeout applies on top of the caller's own signal rather than replacing it
+            const signal = getSignal({ signal: init?.signal ?? undefined, timeout: config.timeout });
+            return fetch(input, { ...init, signal });
+        },
+    };
+}
@@ -21,8 +21,12 @@ OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 SOFTWARE.
 */
 
+import { getPublicKeyFromDidController, type FoundPublicKey } from "@atcute/crypto";
 import type { DidDocument } from "@atcute/identity";
 import type { Did } from "@atcute/lexicons";
+import { getResolverConfig, type ResolverConfig } from "./config.js";
+import type { MiniDoc } from "../slingshot.js";
+import { IdentityResolutionError } from "../identity-cache.js";
 
 /**
  * Retrieves AT Protocol PDS endpoint from the DID document, if available
@@ -57,6 +61,27 @@ export function getServiceEndpoint(
     return validateUrl(found.serviceEndpoint);
 }
 
+/**
+ * Retrieves the key the account signs its repository commits with from the DID document, if available
+ * @param doc DID document
+ * @returns The decoded secp256k1 or P-256 public key, if available and supported
+ */
+export function getSigningKey(doc: DidDocument): FoundPublicKey | undefined {
+    const did = doc.id;
+
+    const found = doc.verificationMethod?.find((method) => method.id === '#atproto' || method.id === `${did}#atproto`);
+
+    if (!found || typeof found.publicKeyMultibase !== 'string') {
+        return undefined;
+    }
+
+    try {
+        return getPublicKeyFromDidController({ type: found.type, publicKeyMultibase: found.publicKeyMultibase });
+    } catch {
+        return undefined;
+    }
+}
+
 function validateUrl(urlStr: string): string | undefined {
     let url: URL;
     try {
@@ -72,7 +97,12 @@ function validateUrl(urlStr: string): string | undefined {
     }
 }
 
-export async function getDidDocument(did: Did): Promise<DidDocument> {
+export async function getDidDocument(did: Did, config?: ResolverConfig): Promise<DidDocument> {
+    const { plcDirectory, fetch, slingshot } = getResolverConfig(config);
+    if (slingshot) {
+        return miniDocToDidDocument(await slingshot.resolveMiniDoc(did));
+    }
+
     const colon_index = did.indexOf(':', 4);
 
     const type = did.slice(4, colon_index);
@@ -82,10 +112,10 @@ export async function getDidDocument(did: Did): Promise<DidDocument> {
     let doc: DidDocument;
 
     if (type === 'plc') {
-        const response = await fetch(`https://plc.directory/${did}`);
+        const response = await fetch(`${plcDirectory.replace(/\/$/, '')}/${did}`);
 
         if (response.status === 404) {
-            throw new Error('did not found in directory');
+            throw new IdentityResolutionError('did not found in directory', { notFound: true });
         }
         if (!response.ok) {
             throw new Error('directory is unreachable');
@@ -95,14 +125,11 @@ export async function getDidDocument(did: Did): Promise<DidDocument> {
 
         doc = json as DidDocument;
     } else if (type === 'web') {
-        const DID_WEB_RE = /^([a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*(?:\.[a-zA-Z]{2,}))$/;
+        const response = await fetch(getDidWebUrl(ident));
 
-        if (!DID_WEB_RE.test(ident)) {
-            throw new Error('invalid identifier');
+        if (response.status === 404 || response.status === 410) {
+            throw new IdentityResolutionError('did document not found', { notFound: true });
         }
-
-        const response = await fetch(`https://${ident}/.well-known/did.json`);
-
         if (!response.ok) {
             throw new Error('did document is unreachable');
         }
@@ -111,12 +138,58 @@ export async function getDidDocument(did: Did): Promise<DidDocument> {
 
         doc = json as DidDocument;
     } else {
-        throw new Error('unsupported did method');
+        throw new IdentityResolutionError('unsupported did method', { notFound: true });
+    }
+
+    if (doc?.id !== did) {
+        throw new Error(`did document is for ${doc?.id} instead of ${did}`);
     }
 
     return doc;
 }
 
+function miniDocToDidDocument({ did, handle, pds, signing_key }: MiniDoc): DidDocument {
+    return {
+        '@context': ['https://www.w3.org/ns/did/v1'],
+        id: did,
+        alsoKnownAs: handle !== 'handle.invalid' ? [`at://${handle}`] : [],
+        verificationMethod: [{ id: `${did}#atproto`, type: 'Multikey', controller: did, publicKeyMultibase: signing_key }],
+        service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: pds }],
+    };
+}
+
+const HOSTNAME_RE = /^(?:localhost|[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*(?:\.[a-zA-Z]{2,}))$/;
+
+/**
+ * Gets the URL of the DID document of a did:web, given the part after `did:web:`. The first segment is the host,
+ * with the port percent-encoded (`localhost%3A3000`); further colon-separated segments are path components, so
+ * `example.com:u:alice` maps to `https://example.com/u/alice/did.json`. Plain HTTP is only used for localhost.
+ */
+export function getDidWebUrl(ident: string): string {
+    const [encodedHost, ...path] = ident.split(':');
+
+    let host: string;
+    let segments: string[];
+    try {
+        host = decodeURIComponent(encodedHost);
+        segments = path.map(decodeURIComponent);
+    } catch {
+        throw new Error('invalid identifier');
+    }
+
+    const [hostname, port, ...rest] = host.split(':');
+    if (rest.length || !HOSTNAME_RE.test(hostname) || (port !== undefined && !/^\d{1,5}$/.test(port))) {
+        throw new Error('invalid identifier');
+    }
+    if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+        throw new Error('invalid identifier');
+    }
+
+    const protocol = hostname === 'localhost' ? 'http' : 'https';
+    const directory = segments.length ? segments.map(encodeURIComponent).join('/') : '.well-known';
+    return `${protocol}://${host}/${directory}/did.json`;
+}
+
 export function getDid(didDoc: DidDocument): Did {
     return didDoc.id as Did;
 }
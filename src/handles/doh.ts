@@ -1,11 +1,36 @@
 import type { Did } from "@atcute/lexicons";
 import { isDid } from "./index.js";
+import { getResolverConfig, type ResolverConfig } from "./config.js";
+import { IdentityResolutionError } from "../identity-cache.js";
 
 const SUBDOMAIN = '_atproto';
 const PREFIX = 'did=';
 
-export const resolveHandleViaDoH = async (handle: string): Promise<Did> => {
-	const url = new URL('https://mozilla.cloudflare-dns.com/dns-query');
+const DNS_NOERROR = 0;
+const DNS_NXDOMAIN = 3;
+
+export const resolveHandleViaDoH = async (handle: string, config?: ResolverConfig): Promise<Did> => {
+	const { dohUrls, fetch } = getResolverConfig(config);
+
+	// fall through to the next server if one fails, but not if it answers without a DID
+	let lastError: unknown = new Error('no DoH servers configured');
+	for (const dohUrl of dohUrls) {
+		let response: Response;
+		try {
+			response = await queryDoH(dohUrl, handle, fetch);
+		} catch (err) {
+			lastError = err;
+			continue;
+		}
+
+		return await readDoHResponse(response, handle);
+	}
+
+	throw lastError;
+};
+
+const queryDoH = async (dohUrl: string, handle: string, fetch: (input: URL, init?: RequestInit) => Promise<Response>) => {
+	const url = new URL(dohUrl);
 	url.searchParams.set('type', 'TXT');
 	url.searchParams.set('name', `${SUBDOMAIN}.${handle}`);
 
@@ -15,8 +40,8 @@ export const resolveHandleViaDoH = async (handle: string): Promise<Did> => {
 		redirect: 'follow',
 	});
 
-	const type = response.headers.get('content-type')?.trim();
 	if (!response.ok) {
+		const type = response.headers.get('content-type')?.trim();
 		const message = type?.startsWith('text/plain')
 			? await response.text()
 			: `failed to resolve ${handle}`;
@@ -24,6 +49,12 @@ export const resolveHandleViaDoH = async (handle: string): Promise<Did> => {
 		throw new Error(message);
 	}
 
+	return response;
+};
+
+const readDoHResponse = async (response: Response, handle: string): Promise<Did> => {
+	const type = response.headers.get('content-type')?.trim();
+
 	if (type !== 'application/dns-json') {
 		throw new Error('unexpected response from DoH server');
 	}
@@ -52,7 +83,9 @@ export const resolveHandleViaDoH = async (handle: string): Promise<Did> => {
 		break;
 	}
 
-	throw new Error(`failed to resolve ${handle}`);
+	// NOERROR without a DID and NXDOMAIN are answers, anything else (such as SERVFAIL) may go away on its own
+	const notFound = result.Status === DNS_NOERROR || result.Status === DNS_NXDOMAIN;
+	throw new IdentityResolutionError(`failed to resolve ${handle}`, { notFound });
 };
 
 type Result = { Status: number; Answer?: Answer[] };
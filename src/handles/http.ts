@@ -1,10 +1,16 @@
 import type { Did } from "@atcute/lexicons";
 import { isDid } from "./index.js";
+import { getResolverConfig, type ResolverConfig } from "./config.js";
+import { IdentityResolutionError } from "../identity-cache.js";
 
-export const resolveHandleViaHttp = async (handle: string): Promise<Did> => {
+export const resolveHandleViaHttp = async (handle: string, config?: ResolverConfig): Promise<Did> => {
+	const { fetch } = getResolverConfig(config);
 	const url = new URL('/.well-known/atproto-did', `https://${handle}`);
 
 	const response = await fetch(url, { redirect: 'error' });
+	if (response.status === 404) {
+		throw new IdentityResolutionError(`${handle} has no atproto-did file`, { notFound: true });
+	}
 	if (!response.ok) {
 		throw new Error('domain is unreachable');
 	}
@@ -16,5 +22,5 @@ export const resolveHandleViaHttp = async (handle: string): Promise<Did> => {
 		return did;
 	}
 
-	throw new Error(`failed to resolve ${handle}`);
+	throw new IdentityResolutionError(`failed to resolve ${handle}`, { notFound: true });
 };
@@ -0,0 +1,288 @@
+import { encode } from "@atcute/cbor";
+import * as CID from "@atcute/cid";
+import { verifySigWithDidKey } from "@atcute/crypto";
+import type { Cid, Did } from "@atcute/lexicons";
+import { fromBase64Url, toBase32 } from "@atcute/multibase";
+import { getResolverConfig, type ResolverConfig } from "./config.js";
+
+export interface PlcService {
+    type: string;
+    endpoint: string;
+}
+
+export interface PlcOperation {
+    type: 'plc_operation';
+    /** did:keys allowed to sign the next operation, in order of priority */
+    rotationKeys: string[];
+    /** did:keys by ID, `atproto` being the repository signing key */
+    verificationMethods: { [id: string]: string };
+    alsoKnownAs: string[];
+    services: { [id: string]: PlcService };
+    prev: Cid | null;
+    sig: string;
+}
+
+export interface PlcTombstone {
+    type: 'plc_tombstone';
+    prev: Cid;
+    sig: string;
+}
+
+/** The original genesis operation format, still found at the start of older DIDs' logs */
+export interface PlcLegacyCreate {
+    type: 'create';
+    signingKey: string;
+    recoveryKey: string;
+    handle: string;
+    service: string;
+    prev: null;
+    sig: string;
+}
+
+export type PlcOp = PlcOperation | PlcTombstone | PlcLegacyCreate;
+
+export interface PlcAuditLogEntry {
+    did: Did;
+    operation: PlcOp;
+    cid: Cid;
+    /** Whether the operation was undone by a later operation signed with a higher-priority rotation key */
+    nullified: boolean;
+    createdAt: string;
+}
+
+export type PlcChange =
+    | { field: 'handle' | 'pds' | 'signingKey'; from: string | undefined; to: string | undefined }
+    | { field: 'rotationKeys'; from: string[]; to: string[] };
+
+export interface PlcTimelineEntry {
+    cid: Cid;
+    createdAt: string;
+    nullified: boolean;
+    type: 'create' | 'update' | 'tombstone';
+    /** The rotation key that signed the operation, if the log was verified */
+    signedBy?: string;
+    /** What the operation changed compared to the operation it replaced. Every field is listed for creates. */
+    changes: PlcChange[];
+}
+
+export class PlcVerificationError extends Error {
+    override name = 'PlcVerificationError';
+
+    constructor(
+        message: string,
+        /** CID of the operation that failed verification */
+        readonly cid: Cid,
+    ) {
+        super(message);
+    }
+}
+
+async function plcRequest(did: Did, path: string, config?: ResolverConfig) {
+    const { plcDirectory, fetch } = getResolverConfig(config);
+    const response = await fetch(`${plcDirectory.replace(/\/$/, '')}/${did}${path}`);
+
+    if (response.status === 404) {
+        throw new Error('did not found in directory');
+    }
+    if (!response.ok) {
+        throw new Error('directory is unreachable');
+    }
+
+    return await response.json();
+}
+
+/**
+ * Gets the operations of the current chain of a did:plc, oldest first. Nullified operations aren't included.
+ */
+export async function getPlcLog(did: Did, config?: ResolverConfig): Promise<PlcOp[]> {
+    return await plcRequest(did, '/log', config);
+}
+
+/**
+ * Gets every operation ever submitted for a did:plc, oldest first, including nullified ones.
+ */
+export async function getPlcAuditLog(did: Did, config?: ResolverConfig): Promise<PlcAuditLogEntry[]> {
+    return await plcRequest(did, '/log/audit', config);
+}
+
+function getRotationKeys(op: PlcOp): string[] {
+    switch (op.type) {
+        case 'plc_operation': return op.rotationKeys;
+        case 'create': return [op.recoveryKey, op.signingKey];
+        case 'plc_tombstone': return [];
+    }
+}
+
+/** How long after an operation a higher-priority rotation key can still nullify it, in milliseconds */
+const RECOVERY_WINDOW = 72 * 60 * 60 * 1000;
+
+interface ChainLink {
+    cid: Cid;
+    operation: PlcOp;
+    /** index of the rotation key that signed the operation, in the rotation keys of the operation before it */
+    signerIndex: number;
+    createdAt: number;
+}
+
+/**
+ * Checks the operations of a did:plc's audit log against each other: every operation's CID, that the genesis
+ * operation hashes to the DID, and that every operation is signed by a rotation key of the operation it follows.
+ *
+ * The chain is rebuilt from the operations rather than from the directory's `nullified` flags. An operation that
+ * forks off an earlier point of the chain is only accepted if it's signed by a rotation key with strictly higher
+ * priority than the one that signed the first operation it replaces, and within 72 hours of that operation. The
+ * `nullified` flags must then match the operations that were replaced. Timestamps are the directory's own, so they
+ * can't be checked.
+ * @returns the rotation key that signed each operation
+ * @throws {PlcVerificationError} at the first operation that fails a check
+ */
+export async function verifyPlcAuditLog(did: Did, entries: readonly PlcAuditLogEntry[]): Promise<string[]> {
+    const signers: string[] = [];
+    const nullified = new Set<Cid>();
+    let chain: ChainLink[] = [];
+
+    for (const entry of entries) {
+        const { operation, cid } = entry;
+        const fail = (message: string) => new PlcVerificationError(`${message} in operation ${cid} of ${did}`, cid);
+
+        const bytes = encode(operation);
+        if (CID.toString(await CID.create(0x71, bytes)) !== cid) {
+            throw fail('CID mismatch');
+        }
+
+        let position: number;
+        let previous: PlcOp;
+        if (operation.prev === null) {
+            if (chain.length) throw fail('second genesis operation');
+
+            const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+            if (`did:plc:${toBase32(hash).slice(0, 24)}` !== did) {
+                throw fail('genesis operation does not hash to the DID');
+            }
+            position = 0;
+            previous = operation;
+        } else {
+            const index = chain.findIndex(link => link.cid === operation.prev);
+            if (index === -1) throw fail(`previous operation ${operation.prev} is not on the current chain`);
+            position = index + 1;
+            previous = chain[index].operation;
+        }
+
+        const { sig, ...unsigned } = operation;
+        const data = encode(unsigned);
+        const signature = fromBase64Url(sig);
+
+        const rotationKeys = getRotationKeys(previous);
+        let signerIndex = -1;
+        for (let i = 0; i < rotationKeys.length; i++) {
+            if (await verifySigWithDidKey(rotationKeys[i], signature, data)) {
+                signerIndex = i;
+                break;
+            }
+        }
+        if (signerIndex === -1) throw fail('invalid signature');
+
+        const createdAt = Date.parse(entry.createdAt);
+
+        // forking off before the head replaces the rest of the chain, which only a higher-priority key can do, and
+        // only for a limited time
+        const replaced = chain[position];
+        if (replaced) {
+            if (signerIndex >= replaced.signerIndex) {
+                throw fail(`rotation key does not have priority over the one that signed ${replaced.cid}`);
+            }
+            if (!(createdAt - replaced.createdAt <= RECOVERY_WINDOW)) {
+                throw fail(`recovery window of ${replaced.cid} has passed`);
+            }
+
+            for (const link of chain.slice(position)) nullified.add(link.cid);
+            chain = chain.slice(0, position);
+        }
+
+        chain.push({ cid, operation, signerIndex, createdAt });
+        signers.push(rotationKeys[signerIndex]);
+    }
+
+    for (const entry of entries) {
+        if (entry.nullified !== nullified.has(entry.cid)) {
+            throw new PlcVerificationError(
+                entry.nullified
+                    ? `directory marks operation ${entry.cid} of ${did} as nullified, but no later operation replaced it`
+                    : `directory does not mark operation ${entry.cid} of ${did} as nullified, but a later operation replaced it`,
+                entry.cid,
+            );
+        }
+    }
+
+    return signers;
+}
+
+interface PlcState {
+    handle?: string;
+    pds?: string;
+    signingKey?: string;
+    rotationKeys: string[];
+}
+
+function getState(op: PlcOp | undefined): PlcState {
+    switch (op?.type) {
+        case 'plc_operation':
+            return {
+                handle: op.alsoKnownAs.find(aka => aka.startsWith('at://'))?.slice('at://'.length),
+                pds: op.services['atproto_pds']?.endpoint,
+                signingKey: op.verificationMethods['atproto'],
+                rotationKeys: op.rotationKeys,
+            };
+        case 'create':
+            return {
+                handle: op.handle,
+                pds: op.service,
+                signingKey: op.signingKey,
+                rotationKeys: [op.recoveryKey, op.signingKey],
+            };
+        default:
+            return { rotationKeys: [] };
+    }
+}
+
+function diffStates(before: PlcState, after: PlcState, all: boolean): PlcChange[] {
+    const changes: PlcChange[] = [];
+    for (const field of ['handle', 'pds', 'signingKey'] as const) {
+        if (all || before[field] !== after[field]) {
+            changes.push({ field, from: before[field], to: after[field] });
+        }
+    }
+    if (all || before.rotationKeys.join() !== after.rotationKeys.join()) {
+        changes.push({ field: 'rotationKeys', from: before.rotationKeys, to: after.rotationKeys });
+    }
+    return changes;
+}
+
+/**
+ * Gets the history of a did:plc as a list of handle, PDS and key changes, oldest first. Nullified operations are
+ * included and marked, since they're often the interesting part when investigating a takeover.
+ * @param options.verify whether to check the operation chain with {@link verifyPlcAuditLog} first. Defaults to true.
+ */
+export async function getPlcTimeline(
+    did: Did,
+    { verify = true, resolver }: { verify?: boolean; resolver?: ResolverConfig } = {},
+): Promise<PlcTimelineEntry[]> {
+    const entries = await getPlcAuditLog(did, resolver);
+    const signers = verify ? await verifyPlcAuditLog(did, entries) : undefined;
+
+    const byCid = new Map(entries.map(entry => [entry.cid, entry.operation]));
+
+    return entries.map((entry, i): PlcTimelineEntry => {
+        const { operation } = entry;
+        const previous = operation.prev !== null ? byCid.get(operation.prev) : undefined;
+
+        return {
+            cid: entry.cid,
+            createdAt: entry.createdAt,
+            nullified: entry.nullified,
+            type: operation.prev === null ? 'create' : operation.type === 'plc_tombstone' ? 'tombstone' : 'update',
+            signedBy: signers?.[i],
+            changes: diffStates(getState(previous), getState(operation), operation.prev === null),
+        };
+    });
+}
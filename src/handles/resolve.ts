@@ -1,29 +1,41 @@
-import type { Did } from "@atcute/lexicons";
+import type { Did, Handle } from "@atcute/lexicons";
 import { isDid } from "./index.js";
 import { resolveHandleViaDoH } from "./doh.js";
 import { resolveHandleViaHttp } from "./http.js";
+import { getDefaultIdentityCache, IdentityResolutionError } from "../identity-cache.js";
+import { getResolverConfig, type ResolveOptions } from "./config.js";
 
-const didCache = new Map<string, Did>();
-export async function resolveHandleAnonymously(handle: string) {
+export async function resolveHandleAnonymously(handle: string, { cache = getDefaultIdentityCache(), resolver, ...options }: ResolveOptions = {}) {
     if (isDid(handle)) return handle;
-    if (didCache.has(handle)) {
-        return didCache.get(handle)!;
-    }
 
-    const results = await Promise.allSettled([
-        resolveHandleViaHttp(handle),
-        resolveHandleViaDoH(handle),
-    ]);
+    return await cache.resolveHandle(handle, async () => {
+        const { slingshot } = getResolverConfig(resolver);
+        if (slingshot) {
+            try {
+                return (await slingshot.resolveMiniDoc(handle as Handle)).did;
+            } catch (err) {
+                throw new IdentityResolutionError(`failed to resolve ${handle}`, { cause: err });
+            }
+        }
 
-    const did = results
-        .find(p => p.status === 'fulfilled')
-        ?.value;
+        const results = await Promise.allSettled([
+            resolveHandleViaHttp(handle, resolver),
+            resolveHandleViaDoH(handle, resolver),
+        ]);
 
-    if (did === undefined) {
-        throw results;
-    }
+        const did = results
+            .find(p => p.status === 'fulfilled')
+            ?.value;
 
-    didCache.set(handle, did);
+        if (did === undefined) {
+            const reasons = results.map(result => (result as PromiseRejectedResult).reason);
+            throw new IdentityResolutionError(`failed to resolve ${handle}`, {
+                cause: reasons,
+                // only if neither method could have found a DID with a working network
+                notFound: reasons.every(reason => reason instanceof IdentityResolutionError && reason.notFound),
+            });
+        }
 
-    return did;
+        return did;
+    }, options);
 }
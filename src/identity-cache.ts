@@ -0,0 +1,280 @@
+import type { Did } from "@atcute/lexicons";
+
+export interface IdentityCacheEntry {
+    /** The cached result, if resolution succeeded */
+    value?: unknown;
+    /** Message of the error resolution failed with, if it failed */
+    error?: string;
+    /** When the entry stops being used, in milliseconds since the epoch */
+    expiresAt: number;
+}
+
+/**
+ * Storage backend of an {@link IdentityCache}. Entries are plain JSON, so anything that can store strings works.
+ */
+export interface IdentityCacheStore {
+    get(key: string): IdentityCacheEntry | undefined | Promise<IdentityCacheEntry | undefined>;
+    set(key: string, entry: IdentityCacheEntry): unknown;
+    delete(key: string): unknown;
+}
+
+/**
+ * Keeps entries in memory, evicting the least recently used ones once there are more than `maxSize`.
+ */
+export class MemoryCacheStore implements IdentityCacheStore {
+    private readonly entries = new Map<string, IdentityCacheEntry>();
+
+    constructor(readonly maxSize = 1000) {}
+
+    get(key: string) {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // move to the end, Maps iterate in insertion order
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: IdentityCacheEntry) {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        if (this.entries.size > this.maxSize) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    delete(key: string) {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * Keeps entries in `localStorage`, `sessionStorage` or anything else implementing the Web Storage API.
+ */
+export class WebStorageCacheStore implements IdentityCacheStore {
+    constructor(
+        private readonly storage: Storage = globalThis.localStorage,
+        private readonly prefix = 'kitty-agent:identity:',
+    ) {}
+
+    get(key: string): IdentityCacheEntry | undefined {
+        const json = this.storage.getItem(this.prefix + key);
+        if (json === null) return undefined;
+
+        try {
+            return JSON.parse(json);
+        } catch {
+            return undefined;
+        }
+    }
+
+    set(key: string, entry: IdentityCacheEntry) {
+        try {
+            this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+        } catch {
+            // out of quota, not worth failing resolution over
+        }
+    }
+
+    delete(key: string) {
+        this.storage.removeItem(this.prefix + key);
+    }
+}
+
+/**
+ * Keeps entries in an IndexedDB object store, which is created if it doesn't exist yet. Several stores can share a
+ * database by using different store names.
+ */
+export class IndexedDBCacheStore implements IdentityCacheStore {
+    private db: Promise<IDBDatabase> | undefined;
+
+    constructor(
+        private readonly databaseName = 'kitty-agent',
+        private readonly storeName = 'identity',
+    ) {}
+
+    async get(key: string): Promise<IdentityCacheEntry | undefined> {
+        return await this.request('readonly', store => store.get(key));
+    }
+
+    async set(key: string, entry: IdentityCacheEntry) {
+        await this.request('readwrite', store => store.put(entry, key));
+    }
+
+    async delete(key: string) {
+        await this.request('readwrite', store => store.delete(key));
+    }
+
+    private async request<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await (this.db ??= this.open());
+        const request = makeRequest(db.transaction(this.storeName, mode).objectStore(this.storeName));
+        return await new Promise<T>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private open(version?: number) {
+        return new Promise<IDBDatabase>((resolve, reject) => {
+            const request = version === undefined ? indexedDB.open(this.databaseName) : indexedDB.open(this.databaseName, version);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(this.storeName)) {
+                    request.result.createObjectStore(this.storeName);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+
+                // the database already existed without this store, for instance because it was created by a store
+                // with another name, so it has to be upgraded to add it
+                if (!db.objectStoreNames.contains(this.storeName)) {
+                    db.close();
+                    resolve(this.open(db.version + 1));
+                    return;
+                }
+
+                // let other stores upgrade the database, reopening it on the next request
+                db.onversionchange = () => {
+                    db.close();
+                    this.db = undefined;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                // another store upgraded the database first, so check again whether this store exists now
+                if (version !== undefined && request.error?.name === 'VersionError') {
+                    resolve(this.open());
+                } else {
+                    reject(request.error);
+                }
+            };
+        });
+    }
+}
+
+/**
+ * Thrown when a handle or DID can't be resolved, including when an earlier failure is still cached.
+ */
+export class IdentityResolutionError extends Error {
+    override name = 'IdentityResolutionError';
+
+    /** Whether this failure was remembered from an earlier attempt rather than just happening */
+    readonly cached: boolean;
+    /**
+     * Whether the handle or DID definitively doesn't exist, rather than failing to resolve because a server was
+     * unreachable or misbehaving. Only these failures are cached.
+     */
+    readonly notFound: boolean;
+
+    constructor(message: string, { cause, cached = false, notFound = false }: { cause?: unknown; cached?: boolean; notFound?: boolean } = {}) {
+        super(message, { cause });
+        this.cached = cached;
+        this.notFound = notFound;
+    }
+}
+
+export interface IdentityCacheOptions {
+    /** Where entries are kept. Defaults to a {@link MemoryCacheStore}. */
+    store?: IdentityCacheStore;
+    /** How long successful resolutions are cached, in milliseconds. Defaults to an hour. */
+    ttl?: number;
+    /**
+     * How long handles and DIDs that don't exist are remembered as such, in milliseconds. Other failures, like
+     * timeouts and unreachable servers, are never cached. Set to 0 to disable. Defaults to a minute.
+     */
+    negativeTtl?: number;
+}
+
+export interface CachedResolveOptions {
+    /** Cache to use instead of the default one, see {@link setDefaultIdentityCache} */
+    cache?: IdentityCache;
+    /** Skip the cache and resolve again, for instance after a PDS says it doesn't host the account */
+    forceRefresh?: boolean;
+}
+
+/**
+ * Caches handle and DID resolutions with expiry, so changed handles and migrated accounts are picked up eventually.
+ * Concurrent resolutions of the same key share a single request.
+ */
+export class IdentityCache {
+    readonly store: IdentityCacheStore;
+    readonly ttl: number;
+    readonly negativeTtl: number;
+
+    private readonly pending = new Map<string, Promise<unknown>>();
+
+    constructor({ store = new MemoryCacheStore(), ttl = 60 * 60_000, negativeTtl = 60_000 }: IdentityCacheOptions = {}) {
+        this.store = store;
+        this.ttl = ttl;
+        this.negativeTtl = negativeTtl;
+    }
+
+    /** Gets the DID a handle resolves to, calling `resolve` if it isn't cached */
+    resolveHandle(handle: string, resolve: () => Promise<Did>, options?: CachedResolveOptions): Promise<Did> {
+        return this.get(`handle:${handle.toLowerCase()}`, resolve, options);
+    }
+
+    /** Gets data about a DID (such as its document), calling `resolve` if it isn't cached */
+    resolveDid<T>(did: Did, resolve: () => Promise<T>, options?: CachedResolveOptions): Promise<T> {
+        // DIDs can't be confused with the prefixed handle keys, so they're used as keys as is
+        return this.get(did, resolve, options);
+    }
+
+    async invalidateHandle(handle: string) {
+        await this.store.delete(`handle:${handle.toLowerCase()}`);
+    }
+
+    async invalidateDid(did: Did) {
+        await this.store.delete(did);
+    }
+
+    private async get<T>(key: string, resolve: () => Promise<T>, { forceRefresh = false }: CachedResolveOptions = {}): Promise<T> {
+        if (!forceRefresh) {
+            const entry = await this.store.get(key);
+            if (entry && entry.expiresAt > Date.now()) {
+                if (entry.error !== undefined) {
+                    throw new IdentityResolutionError(entry.error, { cached: true, notFound: true });
+                }
+                return entry.value as T;
+            }
+
+            const pending = this.pending.get(key);
+            if (pending) return await (pending as Promise<T>);
+        }
+
+        const promise = this.load(key, resolve).finally(() => {
+            if (this.pending.get(key) === promise) this.pending.delete(key);
+        });
+        this.pending.set(key, promise);
+        return await promise;
+    }
+
+    private async load<T>(key: string, resolve: () => Promise<T>): Promise<T> {
+        let value: T;
+        try {
+            value = await resolve();
+        } catch (err) {
+            // a transient failure shouldn't make an identity unresolvable until the entry expires
+            if (this.negativeTtl > 0 && err instanceof IdentityResolutionError && err.notFound) {
+                await this.store.set(key, { error: err.message, expiresAt: Date.now() + this.negativeTtl });
+            }
+            throw err;
+        }
+
+        await this.store.set(key, { value, expiresAt: Date.now() + this.ttl });
+        return value;
+    }
+}
+
+let defaultIdentityCache = new IdentityCache();
+
+/** Gets the cache used by identity resolution when no other cache is passed */
+export function getDefaultIdentityCache() {
+    return defaultIdentityCache;
+}
+
+/** Replaces the cache used by identity resolution when no other cache is passed */
+export function setDefaultIdentityCache(cache: IdentityCache) {
+    defaultIdentityCache = cache;
+}
@@ -0,0 +1,72 @@
+import type { DidDocument } from "@atcute/identity";
+import type { Did, Handle } from "@atcute/lexicons";
+import { getHandle } from "./handles/did-document.js";
+import { isDid } from "./handles/index.js";
+import { resolveHandleAnonymously } from "./handles/resolve.js";
+import type { ResolveOptions } from "./handles/config.js";
+import { getDidAndPds } from "./pds-helpers.js";
+
+/** What to display instead of a handle that failed verification */
+export const HANDLE_INVALID = 'handle.invalid';
+
+/**
+ * Why a handle failed verification. `check` says which direction failed: `did-to-handle` means the DID document
+ * doesn't claim the handle, `handle-to-did` means the handle doesn't resolve back to the DID.
+ */
+export type HandleVerificationFailure =
+    | { check: 'did-to-handle'; reason: 'no-handle' }
+    | { check: 'did-to-handle'; reason: 'handle-not-claimed'; handle: string; claimedHandle: string }
+    | { check: 'handle-to-did'; reason: 'handle-unresolvable'; handle: string; error: unknown }
+    | { check: 'handle-to-did'; reason: 'did-mismatch'; handle: string; resolvedDid: Did };
+
+export interface ResolvedIdentity {
+    did: Did;
+    /** The verified handle, normalized to lowercase, or {@link HANDLE_INVALID} if verification failed */
+    handle: Handle;
+    /** The handle claimed by the DID document, whether or not it could be verified */
+    claimedHandle: string | undefined;
+    pds: string;
+    didDocument: DidDocument;
+    /** Why the handle is invalid, if it is */
+    failure?: HandleVerificationFailure;
+}
+
+/**
+ * Resolves a handle or DID, checking that the handle and the DID point at each other. If they don't, the identity is
+ * still returned, but with the handle set to {@link HANDLE_INVALID} and `failure` saying which check failed.
+ *
+ * Throws if a handle passed in doesn't resolve to a DID at all, or if the DID document can't be fetched.
+ */
+export async function resolveIdentity(handleOrDid: string, options?: ResolveOptions): Promise<ResolvedIdentity> {
+    const { did, pds, didDocument } = await getDidAndPds(handleOrDid, options);
+    const claimedHandle = getHandle(didDocument)?.toLowerCase();
+
+    const identity = (handle: Handle, failure?: HandleVerificationFailure): ResolvedIdentity =>
+        ({ did, handle, claimedHandle, pds, didDocument, failure });
+
+    if (claimedHandle === undefined) {
+        return identity(HANDLE_INVALID, { check: 'did-to-handle', reason: 'no-handle' });
+    }
+
+    if (!isDid(handleOrDid)) {
+        // the handle was already resolved to this DID, so only the other direction is left to check
+        const handle = handleOrDid.toLowerCase();
+        if (handle !== claimedHandle) {
+            return identity(HANDLE_INVALID, { check: 'did-to-handle', reason: 'handle-not-claimed', handle, claimedHandle });
+        }
+        return identity(handle as Handle);
+    }
+
+    let resolvedDid: Did;
+    try {
+        resolvedDid = await resolveHandleAnonymously(claimedHandle, options);
+    } catch (error) {
+        return identity(HANDLE_INVALID, { check: 'handle-to-did', reason: 'handle-unresolvable', handle: claimedHandle, error });
+    }
+
+    if (resolvedDid !== did) {
+        return identity(HANDLE_INVALID, { check: 'handle-to-did', reason: 'did-mismatch', handle: claimedHandle, resolvedDid });
+    }
+
+    return identity(claimedHandle as Handle);
+}
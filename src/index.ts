@@ -1,10 +1,27 @@
 export * from './agent.js';
+export * from './errors.js';
+export * from './validation.js';
+export * from './transaction.js';
+export * from './repo.js';
+export * from './signal.js';
+export * from './middleware.js';
 export * from './cid.js';
 export * from './rkey.js';
 export * from './pds-helpers.js';
+export * from './identity-cache.js';
+export * from './identity.js';
+export * from './handles/config.js';
+export * from './handles/plc.js';
 export * from './shortid.js';
 export * from './shortid2.js';
 export * from './sample-authenticated-client.js';
+export * from './mock-pds.js';
+export * from './fixtures.js';
 export * from './constellation.js';
+export * from './subscription.js';
+export * from './jetstream.js';
+export * from './firehose.js';
 export * from './slingshot.js';
-export { resolveHandleAnonymously } from './handles/resolve.js';
\ No newline at end of file
+export type { RetryAttempt, RetryOptions } from './retry.js';
+export { resolveHandleAnonymously } from './handles/resolve.js';
+export { getSigningKey } from './handles/did-document.js';
\ No newline at end of file
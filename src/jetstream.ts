@@ -0,0 +1,148 @@
+import type { Cid, Did, Handle, Nsid, RecordKey } from "@atcute/lexicons";
+import type { Records } from "@atcute/lexicons/ambient";
+import type * as v from '@atcute/lexicons/validations';
+import { AtUri } from "@atproto/syntax";
+import { RetryPolicy, type RetryOptions } from "./retry.js";
+import { getSignal, type RequestOptions } from "./signal.js";
+import { readSocket, reconnecting, SubscriptionConnectionError } from "./subscription.js";
+
+/** @deprecated Renamed to {@link SubscriptionConnectionError}, which the firehose client throws as well */
+export { SubscriptionConnectionError as JetstreamConnectionError };
+
+/**
+ * A collection to subscribe to. Jetstream also accepts NSID prefixes ending in `.*`, which match every collection in
+ * that namespace.
+ */
+export type JetstreamCollectionFilter = (keyof Records & Nsid) | `${string}.*`;
+
+/** The collections matched by a {@link JetstreamCollectionFilter} */
+export type CollectionsMatching<F extends JetstreamCollectionFilter>
+    = F extends `${infer Prefix}.*` ? Extract<keyof Records, `${Prefix}.${string}`>
+    : F & keyof Records;
+
+export type JetstreamCommitEvent<K extends keyof Records = keyof Records> = {
+    [C in K]: {
+        kind: 'commit';
+        did: Did;
+        /** Cursor of the event, in microseconds since the epoch */
+        time_us: number;
+        commit:
+            | { operation: 'create' | 'update'; collection: C; rkey: RecordKey; rev: string; cid: Cid; record: v.InferInput<Records[C]>; readonly uri: AtUri }
+            | { operation: 'delete'; collection: C; rkey: RecordKey; rev: string; readonly uri: AtUri };
+    }
+}[K];
+
+export interface JetstreamIdentityEvent {
+    kind: 'identity';
+    did: Did;
+    time_us: number;
+    identity: { did: Did; handle?: Handle; seq: number; time: string };
+}
+
+export interface JetstreamAccountEvent {
+    kind: 'account';
+    did: Did;
+    time_us: number;
+    account: { did: Did; active: boolean; status?: string; seq: number; time: string };
+}
+
+/**
+ * An event from Jetstream. Identity and account events are always sent, regardless of the collection filter.
+ */
+export type JetstreamEvent<K extends keyof Records = keyof Records> = JetstreamCommitEvent<K> | JetstreamIdentityEvent | JetstreamAccountEvent;
+
+/** The collections a client with the filter `F` receives commits for */
+export type SubscribedCollections<F extends JetstreamCollectionFilter>
+    = [F] extends [never] ? keyof Records : CollectionsMatching<F>;
+
+export interface JetstreamOptions<F extends JetstreamCollectionFilter> {
+    /** Base URL of the Jetstream instance, without `/subscribe`. Defaults to `wss://jetstream2.us-east.bsky.network`. */
+    service?: string;
+    /** Only receive commits to these collections. All collections are received if unset. */
+    wantedCollections?: readonly F[];
+    /** Only receive events from these repositories. All repositories are received if unset. */
+    wantedDids?: readonly Did[];
+    /** Start replaying from this cursor (microseconds since the epoch) instead of the live tail */
+    cursor?: number;
+    /**
+     * How to reconnect after the connection drops. `maxAttempts` counts consecutive failed connections and defaults
+     * to unlimited; `retryableStatuses` and `retryWrites` don't apply. Set to `false` to never reconnect.
+     */
+    retry?: RetryOptions | false;
+    /** WebSocket implementation, for runtimes without a global `WebSocket`. Defaults to `globalThis.WebSocket`. */
+    webSocket?: new (url: string) => WebSocket;
+}
+
+/**
+ * Client for Jetstream, which serves the network's commits as JSON over a WebSocket.
+ *
+ * The client tracks the cursor of the last event it yielded, so after a dropped connection it resumes where it left
+ * off. Events at the cursor may be delivered again after reconnecting.
+ */
+export class JetstreamClient<F extends JetstreamCollectionFilter = never> {
+    private readonly service: string;
+    private readonly policy: RetryPolicy | undefined;
+    private readonly webSocket: new (url: string) => WebSocket;
+    private _cursor: number | undefined;
+
+    constructor(private readonly options: JetstreamOptions<F> = {}) {
+        this.service = options.service ?? 'wss://jetstream2.us-east.bsky.network';
+        this.policy = options.retry === false ? undefined : new RetryPolicy({ maxAttempts: Infinity, ...options.retry });
+        this.webSocket = options.webSocket ?? globalThis.WebSocket;
+        this._cursor = options.cursor;
+    }
+
+    /** Cursor of the last event yielded, to resume from later */
+    get cursor() {
+        return this._cursor;
+    }
+
+    /** URL to connect to, including the filters and the current cursor */
+    get url() {
+        const url = new URL('/subscribe', this.service);
+        for (const collection of this.options.wantedCollections ?? []) {
+            url.searchParams.append('wantedCollections', collection);
+        }
+        for (const did of this.options.wantedDids ?? []) {
+            url.searchParams.append('wantedDids', did);
+        }
+        if (this._cursor !== undefined) {
+            url.searchParams.set('cursor', String(this._cursor));
+        }
+        return url.toString();
+    }
+
+    /**
+     * Connects to Jetstream and yields its events until aborted, reconnecting whenever the connection drops. Breaking
+     * out of the loop closes the connection.
+     */
+    async *subscribe(options?: RequestOptions): AsyncGenerator<JetstreamEvent<SubscribedCollections<F>>, void> {
+        const signal = getSignal(options);
+
+        const messages = reconnecting(this.policy, signal, () => readSocket(new this.webSocket(this.url), signal));
+
+        for await (const data of messages) {
+            const event = parseEvent<SubscribedCollections<F>>(typeof data === 'string' ? data : new TextDecoder().decode(data));
+            this._cursor = event.time_us;
+            yield event;
+        }
+    }
+}
+
+/** Parses an event, trusting Jetstream to only send commits to the collections that were asked for */
+function parseEvent<K extends keyof Records>(data: string): JetstreamEvent<K> {
+    const event = JSON.parse(data);
+    if (event.kind !== 'commit') return event;
+
+    const { did, commit } = event;
+    let memoizedAtUri: AtUri | undefined;
+    return {
+        ...event,
+        commit: {
+            ...commit,
+            get uri() {
+                return memoizedAtUri ??= new AtUri(`at://${did}/${commit.collection}/${commit.rkey}`);
+            },
+        },
+    };
+}
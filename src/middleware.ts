@@ -0,0 +1,60 @@
+import type { XRPCErrorPayload } from "@atcute/client";
+import type { XRPCProcedures, XRPCQueries } from "@atcute/lexicons/ambient";
+import type { InferInput, ObjectSchema } from "@atcute/lexicons/validations";
+
+/**
+ * A single attempt at an XRPC request, as seen by middleware. Middleware may replace `params`, `input` and `headers`
+ * before passing the call on.
+ */
+export interface XRPCCall {
+    /** HTTP method the request is made with */
+    readonly method: 'get' | 'post';
+    /** NSID of the query or procedure */
+    readonly nsid: string;
+    /** query string parameters */
+    params: { [key: string]: unknown } | undefined;
+    /** procedure input */
+    input: unknown;
+    /** request headers */
+    headers: Headers;
+    readonly signal: AbortSignal | undefined;
+    /** 1-based index of the attempt, counting retries */
+    readonly attempt: number;
+}
+
+export type XRPCCallResult =
+    | { ok: true; status: number; headers: Headers; data: unknown }
+    | { ok: false; status: number; headers: Headers; data: XRPCErrorPayload };
+
+export type Middleware = (call: XRPCCall, next: (call: XRPCCall) => Promise<XRPCCallResult>) => Promise<XRPCCallResult>;
+
+type ParamsOf<T> = T extends { params: infer P extends ObjectSchema } ? InferInput<P> : undefined;
+
+type InputOf<T> = T extends { input: { type: 'lex'; schema: infer S extends ObjectSchema } } ? InferInput<S> : unknown;
+
+/** A call narrowed down to a specific NSID by {@link isCallTo} */
+export type XRPCCallTo<N extends keyof XRPCQueries | keyof XRPCProcedures> = XRPCCall & {
+    readonly nsid: N;
+    params: N extends keyof XRPCQueries ? ParamsOf<XRPCQueries[N]> : N extends keyof XRPCProcedures ? ParamsOf<XRPCProcedures[N]> : never;
+    input: N extends keyof XRPCProcedures ? InputOf<XRPCProcedures[N]> : undefined;
+};
+
+/**
+ * Checks which endpoint a call is for, giving typed access to its params and input.
+ */
+export function isCallTo<N extends keyof XRPCQueries | keyof XRPCProcedures>(call: XRPCCall, nsid: N): call is XRPCCallTo<N> {
+    return call.nsid === nsid;
+}
+
+/**
+ * Middleware that adds headers to every request, unless the request already sets them.
+ */
+export function headerMiddleware(headers: HeadersInit): Middleware {
+    const entries = [...new Headers(headers)];
+    return (call, next) => {
+        for (const [name, value] of entries) {
+            if (!call.headers.has(name)) call.headers.set(name, value);
+        }
+        return next(call);
+    };
+}
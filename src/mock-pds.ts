@@ -0,0 +1,400 @@
+import { ComAtprotoRepoApplyWrites, ComAtprotoRepoCreateRecord, ComAtprotoRepoDeleteRecord, ComAtprotoRepoPutRecord } from "@atcute/atproto";
+import type { FetchHandlerObject } from "@atcute/client";
+import { encode } from "@atcute/cbor";
+import * as CID from "@atcute/cid";
+import type { Cid, Did, Handle, Nsid, RecordKey } from "@atcute/lexicons";
+import * as v from '@atcute/lexicons/validations';
+import { getRecordCid } from "./cid.js";
+
+export interface MockPdsOptions {
+    /** DID of the account hosted by the fake PDS. Defaults to `did:plc:mockmockmockmockmockmock`. */
+    did?: Did;
+    /** Handle of the account, which is also accepted as `repo`. Defaults to `mock.test`. */
+    handle?: Handle;
+    /** Records the repository starts out with, by collection and record key */
+    records?: { [collection: string]: { [rkey: string]: { [key: string]: unknown } } };
+    /**
+     * Timestamp in microseconds of the first TID handed out as a revision or record key. Every TID after it is one
+     * microsecond later, so runs are reproducible. Defaults to 2024-01-01.
+     */
+    clock?: number;
+}
+
+interface StoredRecord {
+    cid: Cid;
+    value: { [key: string]: unknown };
+}
+
+interface StoredBlob {
+    bytes: Uint8Array;
+    mimeType: string;
+    /** revision of the repository when the blob was uploaded */
+    rev: string;
+}
+
+type Write =
+    | { action: 'create'; collection: Nsid; rkey?: RecordKey; value: { [key: string]: unknown } }
+    | { action: 'update'; collection: Nsid; rkey: RecordKey; value: { [key: string]: unknown }; swapRecord?: Cid | null }
+    | { action: 'delete'; collection: Nsid; rkey: RecordKey; swapRecord?: Cid | null };
+
+type WriteResult =
+    | { action: 'create' | 'update'; uri: string; cid: Cid }
+    | { action: 'delete'; found: boolean };
+
+class MockPdsError extends Error {
+    constructor(readonly error: string, message: string, readonly status = 400) {
+        super(message);
+    }
+}
+
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz';
+
+function encodeTid(timestamp: number): string {
+    let n = BigInt(timestamp) << 10n;
+    let tid = '';
+    for (let i = 0; i < 13; i++) {
+        tid = TID_ALPHABET[Number(n & 31n)] + tid;
+        n >>= 5n;
+    }
+    return tid;
+}
+
+function parseInput<S extends v.ObjectSchema>(schema: S, body: unknown): v.InferOutput<S> {
+    const result = v.safeParse(schema, body);
+    if (!result.ok) {
+        throw new MockPdsError('InvalidRequest', `Invalid input: ${result.message}`);
+    }
+    return result.value;
+}
+
+function asRecord(value: unknown): { [key: string]: unknown } {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new MockPdsError('InvalidRequest', 'Record must be an object');
+    }
+    return value as { [key: string]: unknown };
+}
+
+function json(body: unknown, status = 200) {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+/**
+ * An in-memory fake of a PDS hosting a single account, for testing code built on `KittyAgent` without a
+ * network. It implements the record and blob endpoints of `com.atproto.repo` and `com.atproto.sync`, including
+ * `swapRecord`/`swapCommit` checks and real record CIDs, and responds to anything else with `MethodNotImplemented`.
+ *
+ * ```ts
+ * const agent = new KittyAgent({ handler: new MockPds({ did: 'did:plc:alice' }) });
+ * ```
+ *
+ * Authentication isn't checked. Every write that changes a record creates a commit with a new revision, while deleting
+ * records that don't exist leaves the head alone. No repository is built, so the commit CIDs are only good for
+ * `swapCommit`.
+ */
+export class MockPds implements FetchHandlerObject {
+    readonly did: Did;
+    private readonly accountHandle: Handle;
+
+    private readonly collections = new Map<string, Map<string, StoredRecord>>();
+    private readonly blobs = new Map<string, StoredBlob>();
+    private clock: number;
+    private commit: { cid: Cid; rev: string } | undefined;
+    /** Settles once the write in progress is done, so writes are applied one at a time like on a real PDS */
+    private writing: Promise<unknown> = Promise.resolve();
+    /** Resolves once the initial records have been stored, since their CIDs are computed asynchronously */
+    private readonly seed: Promise<void>;
+
+    constructor({ did = 'did:plc:mockmockmockmockmockmock', handle = 'mock.test', records = {}, clock = Date.UTC(2024, 0, 1) * 1000 }: MockPdsOptions = {}) {
+        this.did = did;
+        this.accountHandle = handle;
+        this.clock = clock;
+        this.seed = this.seedRecords(records);
+    }
+
+    private async seedRecords(records: NonNullable<MockPdsOptions['records']>) {
+        for (const [collection, byRkey] of Object.entries(records)) {
+            for (const [rkey, value] of Object.entries(byRkey)) {
+                this.getCollection(collection).set(rkey, { cid: await this.getCid(value), value });
+            }
+        }
+    }
+
+    async handle(pathname: string, init: RequestInit): Promise<Response> {
+        await this.seed;
+
+        const url = new URL(pathname, 'http://mock.invalid');
+        const nsid = url.pathname.replace(/^\/xrpc\//, '');
+        const params = url.searchParams;
+
+        try {
+            switch (nsid) {
+                case 'com.atproto.repo.getRecord':
+                    return json(this.getRecord(params));
+                case 'com.atproto.repo.listRecords':
+                    return json(this.listRecords(params));
+                case 'com.atproto.repo.createRecord':
+                case 'com.atproto.repo.putRecord':
+                case 'com.atproto.repo.deleteRecord':
+                case 'com.atproto.repo.applyWrites':
+                    return json(await this.write(nsid, await new Request(url, init).json()));
+                case 'com.atproto.repo.uploadBlob':
+                    return json(await this.uploadBlob(new Request(url, init)));
+                case 'com.atproto.sync.getBlob':
+                    return this.getBlob(params);
+                case 'com.atproto.sync.listBlobs':
+                    return json(this.listBlobs(params));
+                default:
+                    throw new MockPdsError('MethodNotImplemented', `${nsid} is not implemented by the mock PDS`, 501);
+            }
+        } catch (err) {
+            if (!(err instanceof MockPdsError)) throw err;
+            return json({ error: err.error, message: err.message }, err.status);
+        }
+    }
+
+    private getCollection(collection: string) {
+        let records = this.collections.get(collection);
+        if (!records) this.collections.set(collection, records = new Map());
+        return records;
+    }
+
+    private async getCid(value: unknown): Promise<Cid> {
+        try {
+            return await getRecordCid(value) as Cid;
+        } catch (err) {
+            throw new MockPdsError('InvalidRequest', `record can't be encoded: ${(err as Error).message}`);
+        }
+    }
+
+    private nextTid() {
+        return encodeTid(this.clock++);
+    }
+
+    private checkRepo(repo: string | null) {
+        if (repo !== this.did && repo?.toLowerCase() !== this.accountHandle) {
+            throw new MockPdsError('RepoNotFound', `Could not find repo: ${repo}`);
+        }
+    }
+
+    private uri(collection: string, rkey: string) {
+        return `at://${this.did}/${collection}/${rkey}`;
+    }
+
+    private getRecord(params: URLSearchParams) {
+        this.checkRepo(params.get('repo'));
+        const collection = params.get('collection')!;
+        const rkey = params.get('rkey')!;
+        const cid = params.get('cid');
+
+        const record = this.collections.get(collection)?.get(rkey);
+        if (!record || (cid && cid !== record.cid)) {
+            throw new MockPdsError('RecordNotFound', `Could not locate record: ${this.uri(collection, rkey)}`);
+        }
+
+        return { uri: this.uri(collection, rkey), cid: record.cid, value: record.value };
+    }
+
+    private listRecords(params: URLSearchParams) {
+        this.checkRepo(params.get('repo'));
+        const collection = params.get('collection')!;
+        const limit = Number(params.get('limit') ?? 50);
+        const cursor = params.get('cursor');
+        const reverse = params.get('reverse') === 'true';
+
+        // newest first unless reversed, like a real PDS
+        const rkeys = [...this.collections.get(collection)?.keys() ?? []].sort();
+        if (!reverse) rkeys.reverse();
+
+        const page = rkeys
+            .filter(rkey => cursor === null || (reverse ? rkey > cursor : rkey < cursor))
+            .slice(0, limit);
+
+        return {
+            records: page.map(rkey => {
+                const record = this.collections.get(collection)!.get(rkey)!;
+                return { uri: this.uri(collection, rkey), cid: record.cid, value: record.value };
+            }),
+            cursor: page.length === limit ? page.at(-1) : undefined,
+        };
+    }
+
+    private async write(nsid: string, body: unknown) {
+        let writes: Write[];
+        let swapCommit: Cid | undefined;
+        switch (nsid) {
+            case 'com.atproto.repo.createRecord': {
+                const input = parseInput(ComAtprotoRepoCreateRecord.mainSchema.input.schema, body);
+                this.checkRepo(input.repo);
+                writes = [{ action: 'create', collection: input.collection, rkey: input.rkey, value: asRecord(input.record) }];
+                swapCommit = input.swapCommit;
+                break;
+            }
+            case 'com.atproto.repo.putRecord': {
+                const input = parseInput(ComAtprotoRepoPutRecord.mainSchema.input.schema, body);
+                this.checkRepo(input.repo);
+                writes = [{ action: 'update', collection: input.collection, rkey: input.rkey, value: asRecord(input.record), swapRecord: input.swapRecord }];
+                swapCommit = input.swapCommit;
+                break;
+            }
+            case 'com.atproto.repo.deleteRecord': {
+                const input = parseInput(ComAtprotoRepoDeleteRecord.mainSchema.input.schema, body);
+                this.checkRepo(input.repo);
+                writes = [{ action: 'delete', collection: input.collection, rkey: input.rkey, swapRecord: input.swapRecord }];
+                swapCommit = input.swapCommit;
+                break;
+            }
+            default: {
+                const input = parseInput(ComAtprotoRepoApplyWrites.mainSchema.input.schema, body);
+                this.checkRepo(input.repo);
+                writes = input.writes.map((write): Write => {
+                    switch (write.$type) {
+                        case 'com.atproto.repo.applyWrites#create':
+                            return { action: 'create', collection: write.collection, rkey: write.rkey, value: asRecord(write.value) };
+                        case 'com.atproto.repo.applyWrites#update':
+                            return { action: 'update', collection: write.collection, rkey: write.rkey, value: asRecord(write.value) };
+                        case 'com.atproto.repo.applyWrites#delete':
+                            return { action: 'delete', collection: write.collection, rkey: write.rkey };
+                    }
+                });
+                swapCommit = input.swapCommit;
+            }
+        }
+
+        const { commit, results } = await this.applyWrites(writes, swapCommit);
+        const [result] = results;
+
+        switch (nsid) {
+            case 'com.atproto.repo.createRecord':
+            case 'com.atproto.repo.putRecord': {
+                const { uri, cid } = result as WriteResult & { action: 'create' | 'update' };
+                return { uri, cid, commit, validationStatus: 'unknown' };
+            }
+            case 'com.atproto.repo.deleteRecord':
+                // deleting a record that doesn't exist succeeds, leaving the head where it was
+                return commit ? { commit } : {};
+            default:
+                return {
+                    commit,
+                    results: results.map(result => result.action === 'delete'
+                        ? { $type: 'com.atproto.repo.applyWrites#deleteResult' }
+                        : { $type: `com.atproto.repo.applyWrites#${result.action}Result`, uri: result.uri, cid: result.cid, validationStatus: 'unknown' }),
+                };
+        }
+    }
+
+    /**
+     * Applies writes all at once: if any of them fails, none of them are applied. Writes wait for the previous ones
+     * to finish, so swaps are checked against the state they're applied to.
+     */
+    private applyWrites(writes: Write[], swapCommit: Cid | undefined) {
+        const result = this.writing.then(() => this.applyWritesNow(writes, swapCommit));
+        this.writing = result.catch(() => {});
+        return result;
+    }
+
+    private async applyWritesNow(writes: Write[], swapCommit: Cid | undefined) {
+        if (swapCommit !== undefined && swapCommit !== this.commit?.cid) {
+            throw new MockPdsError('InvalidSwap', `Commit was at ${this.commit?.cid ?? 'null'}`);
+        }
+
+        // stage changes on copies of the touched collections, then swap them in
+        const staged = new Map<string, Map<string, StoredRecord>>();
+        const stage = (collection: string) => {
+            let records = staged.get(collection);
+            if (!records) staged.set(collection, records = new Map(this.collections.get(collection)));
+            return records;
+        };
+
+        const results: WriteResult[] = [];
+        for (const write of writes) {
+            const records = stage(write.collection);
+
+            if (write.action === 'create') {
+                const rkey = write.rkey ?? this.nextTid();
+                if (records.has(rkey)) {
+                    throw new MockPdsError('InvalidRequest', `Record already exists: ${this.uri(write.collection, rkey)}`);
+                }
+
+                const cid = await this.getCid(write.value);
+                records.set(rkey, { cid, value: write.value });
+                results.push({ action: 'create', uri: this.uri(write.collection, rkey), cid });
+                continue;
+            }
+
+            const current = records.get(write.rkey);
+            if (write.swapRecord !== undefined && write.swapRecord !== (current?.cid ?? null)) {
+                throw new MockPdsError('InvalidSwap', `Record was at ${current?.cid ?? 'null'}`);
+            }
+
+            if (write.action === 'update') {
+                const cid = await this.getCid(write.value);
+                records.set(write.rkey, { cid, value: write.value });
+                results.push({ action: 'update', uri: this.uri(write.collection, write.rkey), cid });
+            } else {
+                records.delete(write.rkey);
+                results.push({ action: 'delete', found: current !== undefined });
+            }
+        }
+
+        // like a real PDS, only writes that change the repository create a commit
+        if (results.every(result => result.action === 'delete' && !result.found)) {
+            return { commit: this.commit, results };
+        }
+
+        for (const [collection, records] of staged) {
+            this.collections.set(collection, records);
+        }
+
+        const rev = this.nextTid();
+        const cid = CID.toString(await CID.create(0x71, encode({
+            did: this.did,
+            version: 3,
+            rev,
+            prev: this.commit ? { $link: this.commit.cid } : null,
+        }))) as Cid;
+        this.commit = { cid, rev };
+
+        return { commit: this.commit, results };
+    }
+
+    private async uploadBlob(request: Request) {
+        const bytes = new Uint8Array(await request.arrayBuffer());
+        const mimeType = request.headers.get('content-type') ?? 'application/octet-stream';
+        const cid = CID.toString(await CID.create(0x55, bytes));
+
+        if (!this.blobs.has(cid)) {
+            this.blobs.set(cid, { bytes, mimeType, rev: this.commit?.rev ?? '' });
+        }
+
+        return { blob: { $type: 'blob', ref: { $link: cid }, mimeType, size: bytes.length } };
+    }
+
+    private getBlob(params: URLSearchParams) {
+        this.checkRepo(params.get('did'));
+
+        const blob = this.blobs.get(params.get('cid')!);
+        if (!blob) {
+            throw new MockPdsError('BlobNotFound', 'Blob not found');
+        }
+
+        return new Response(blob.bytes.slice(), {
+            headers: { 'content-type': blob.mimeType, 'content-length': String(blob.bytes.length) },
+        });
+    }
+
+    private listBlobs(params: URLSearchParams) {
+        this.checkRepo(params.get('did'));
+        const since = params.get('since');
+        const limit = Number(params.get('limit') ?? 500);
+        const cursor = params.get('cursor');
+
+        const cids = [...this.blobs]
+            .filter(([, blob]) => since === null || blob.rev > since)
+            .map(([cid]) => cid)
+            .sort()
+            .filter(cid => cursor === null || cid > cursor)
+            .slice(0, limit);
+
+        return { cids, cursor: cids.length === limit ? cids.at(-1) : undefined };
+    }
+}
@@ -1,6 +1,7 @@
 import type { Did } from "@atcute/lexicons";
 import type { KittyAgent } from "./agent.js";
 import { BaseStatefulOAuthClient, LoginStateImpl, type Account, type LoginState } from "./oauth-stateful-base.js";
+import type { OAuthClientOptions } from "./oauth.js";
 import type { Client } from "@atcute/client";
 
 export namespace Nanostores {
@@ -392,11 +393,7 @@ export class StatefulSvelteOAuthClient<TClient> extends BaseStatefulOAuthClient<
     protected set internal_client(value: TClient | undefined) { this._client.set(value); }
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         nanostores: {
             atom: Nanostores.Atom.atom,
             computed: Nanostores.Computed.computed,
@@ -1,6 +1,7 @@
 import type { Did } from "@atcute/lexicons";
 import type { KittyAgent } from "./agent.js";
 import { BaseStatefulOAuthClient, LoginStateImpl, type Account, type LoginState } from "./oauth-stateful-base.js";
+import type { OAuthClientOptions } from "./oauth.js";
 import type { Client } from "@atcute/client";
 
 namespace PreactSignals {
@@ -166,11 +167,7 @@ export class StatefulPreactOAuthClient<TClient> extends BaseStatefulOAuthClient<
     protected set internal_client(value: TClient | undefined) { this._client.value = value; }
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         preact: {
             signal: typeof PreactSignals.signal,
             computed: typeof PreactSignals.computed,
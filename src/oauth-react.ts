@@ -1,6 +1,7 @@
 import type { Did } from "@atcute/lexicons";
 import type { KittyAgent } from "./agent.js";
 import { BaseStatefulOAuthClient, LoginStateImpl, type Account, type LoginState } from "./oauth-stateful-base.js";
+import type { OAuthClientOptions } from "./oauth.js";
 
 type UseSyncExternalStore = <Snapshot>(
     subscribe: (onStoreChange: () => void) => () => void,
@@ -100,11 +101,7 @@ export class StatefulReactOAuthClient<TClient> extends BaseStatefulOAuthClient<T
     protected set internal_client(value: TClient | undefined) { this._client.set(value); }
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         useSyncExternalStore: UseSyncExternalStore,
         createClient: (loginState: {
             readonly handle: string;
@@ -2,6 +2,7 @@ import type { Client } from "@atcute/client";
 import type { Did } from "@atcute/lexicons";
 import type { KittyAgent } from "./agent.js";
 import { BaseStatefulOAuthClient, type Account, type LoginState, LoginStateImpl } from "./oauth-stateful-base.js";
+import type { OAuthClientOptions } from "./oauth.js";
 
 namespace Signals {
     export type OnEffectFunction<S, Prev, Next extends Prev = Prev> = (
@@ -82,11 +83,7 @@ export class StatefulSolidOAuthClient<TClient> extends BaseStatefulOAuthClient<T
     protected set internal_client(value: TClient | undefined) { this._client[SignalAccess.Write](() => value); }
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         { createSignal, createMemo, createEffect, on }: {
             createSignal<T>(value: T): Signals.Signal<T>,
             createMemo<Next extends Prev, Prev = Next>(
@@ -1,6 +1,6 @@
 import type { Did } from "@atcute/lexicons";
 import { KittyAgent } from "./agent.js";
-import { OAuthClient } from "./oauth.js";
+import { OAuthClient, type OAuthClientOptions } from "./oauth.js";
 import { getDidAndPds } from "./pds-helpers.js";
 import { finalizeAuthorization, OAuthUserAgent } from "@atcute/oauth-browser-client";
 
@@ -38,11 +38,7 @@ export abstract class BaseStatefulOAuthClient<TClient> extends OAuthClient {
     protected abstract accessor internal_client: TClient | undefined;
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         private readonly createClient: (loginState: {
             readonly handle: string;
             readonly did: Did;
@@ -77,7 +73,7 @@ export abstract class BaseStatefulOAuthClient<TClient> extends OAuthClient {
             return true;
         }
 
-        const { did, pds } = await getDidAndPds(handle);
+        const { did, pds } = await getDidAndPds(handle, this.resolveOptions);
         this.internal_account = { did, pds, handle };
 
         console.log('set account:', this.internal_account)
@@ -1,6 +1,7 @@
 import type { Did } from "@atcute/lexicons";
 import type { KittyAgent } from "./agent.js";
 import { BaseStatefulOAuthClient, LoginStateImpl, type Account, type LoginState } from "./oauth-stateful-base.js";
+import type { OAuthClientOptions } from "./oauth.js";
 import type { Client } from "@atcute/client";
 
 export namespace Store {
@@ -128,11 +129,7 @@ export class StatefulSvelteOAuthClient<TClient> extends BaseStatefulOAuthClient<
     protected set internal_client(value: TClient | undefined) { this._client.set(value); }
 
     constructor(
-        options: {
-            clientId: string,
-            redirectUri: string,
-            scope: string,
-        },
+        options: OAuthClientOptions,
         svelte: {
             createWritableStore: <T>(value: T) => Store.Writable<T>,
             createDerivedStore: <T, S extends Store.Readable<any>[]>(stores: S, callback: (values: Store.StoresValues<S>) => T) => Store.Readable<T>,
@@ -3,6 +3,7 @@ import { configureOAuth, createAuthorizationUrl, deleteStoredSession, finalizeAu
 import { KittyAgent } from './index.js';
 import { resolveHandleAnonymously } from './handles/resolve.js';
 import { getDidAndPds } from './pds-helpers.js';
+import type { ResolveOptions } from './handles/config.js';
 
 import {
 	CompositeDidDocumentResolver,
@@ -13,14 +14,19 @@ import {
 } from '@atcute/identity-resolver';
 import type { AtprotoDid } from '@atcute/lexicons/syntax';
 
+export interface OAuthClientOptions {
+    clientId: string;
+    redirectUri: string;
+    scope: string;
+    /** How handles and DIDs are resolved, both for signing in and for finding the account's PDS */
+    resolve?: ResolveOptions;
+}
+
 export class OAuthClient {
     private readonly scope: string;
+    protected readonly resolveOptions: ResolveOptions | undefined;
 
-    constructor({ clientId, redirectUri, scope }: {
-        clientId: string,
-        redirectUri: string,
-        scope: string,
-    }) {
+    constructor({ clientId, redirectUri, scope, resolve }: OAuthClientOptions) {
         configureOAuth({
             metadata: {
                 client_id: clientId,
@@ -29,18 +35,19 @@ export class OAuthClient {
             identityResolver: new LocalActorResolver({
                 handleResolver: {
                     resolve: async (handle) => {
-                        return await resolveHandleAnonymously(handle) as AtprotoDid;
+                        return await resolveHandleAnonymously(handle, resolve) as AtprotoDid;
                     }
                 },
                 didDocumentResolver: {
                     resolve: async (did) => {
-                        const { didDocument } = await getDidAndPds(did);
+                        const { didDocument } = await getDidAndPds(did, resolve);
                         return didDocument;
                     },
                 }
             }),
         });
         this.scope = scope;
+        this.resolveOptions = resolve;
     }
 
     async oauthAuthenticate(handle: string) {
@@ -71,7 +78,7 @@ export class OAuthClient {
 
         try {
             session = await getSession(
-                await resolveHandleAnonymously(handle),
+                await resolveHandleAnonymously(handle, this.resolveOptions),
                 { allowStale: false },
             );
         } catch (err) {
@@ -2,20 +2,40 @@ import { getDidDocument, getPdsEndpoint } from './handles/did-document.js';
 import type { Did } from "@atcute/lexicons";
 import { resolveHandleAnonymously } from "./handles/resolve.js";
 import type { DidDocument } from '@atcute/identity';
+import { getDefaultIdentityCache, IdentityResolutionError } from './identity-cache.js';
+import type { ResolveOptions } from './handles/config.js';
+import { isRepoNotFoundError } from './errors.js';
 
-const didPdsCache = new Map<string, { did: Did; pds: string, didDocument: DidDocument }>();
+export async function getDidAndPds(handleOrDid: string, { cache = getDefaultIdentityCache(), ...options }: ResolveOptions = {}): Promise<{ did: Did; pds: string, didDocument: DidDocument }> {
+    const did = await resolveHandleAnonymously(handleOrDid, { cache, ...options });
 
-export async function getDidAndPds(handleOrDid: string): Promise<{ did: Did; pds: string, didDocument: DidDocument }> {
-    if (didPdsCache.has(handleOrDid)) {
-        return didPdsCache.get(handleOrDid)!;
-    }
+    return await cache.resolveDid(did, async () => {
+        const didDocument = await getDidDocument(did, options.resolver);
+        const pds = getPdsEndpoint(didDocument);
+        if (!pds) throw new IdentityResolutionError(`No PDS for ${handleOrDid} (${did})!`, { notFound: true });
+
+        return { did, pds, didDocument };
+    }, options);
+}
 
-    const did = await resolveHandleAnonymously(handleOrDid);
-    const didDocument = await getDidDocument(did);
-    const pds = getPdsEndpoint(didDocument);
-    if (!pds) throw new Error(`No PDS for ${handleOrDid} (${did})!`);
+/**
+ * Runs `fn` against the PDS of an account. If the PDS responds with `RepoNotFound`, the account may have migrated,
+ * so its identity is resolved again skipping the cache, and `fn` is retried once if the PDS changed.
+ */
+export async function withDidAndPds<T>(
+    handleOrDid: string,
+    fn: (identity: { did: Did; pds: string, didDocument: DidDocument }) => Promise<T>,
+    options?: ResolveOptions
+): Promise<T> {
+    const identity = await getDidAndPds(handleOrDid, options);
+    try {
+        return await fn(identity);
+    } catch (err) {
+        if (!isRepoNotFoundError(err)) throw err;
 
-    didPdsCache.set(handleOrDid, { did, pds, didDocument });
+        const refreshed = await getDidAndPds(handleOrDid, { ...options, forceRefresh: true });
+        if (refreshed.pds === identity.pds) throw err;
 
-    return { did, pds, didDocument };
+        return await fn(refreshed);
+    }
 }
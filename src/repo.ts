@@ -0,0 +1,398 @@
+import type { CarEntry } from "@atcute/car";
+import { decode, encode, fromBytes, type Bytes, type CidLink } from "@atcute/cbor";
+import * as CID from "@atcute/cid";
+import { verifySig, type FoundPublicKey } from "@atcute/crypto";
+import type { Cid, Did, Nsid, RecordKey } from "@atcute/lexicons";
+import type { Records } from "@atcute/lexicons/ambient";
+import type * as v from '@atcute/lexicons/validations';
+import type { RequestOptions } from "./signal.js";
+
+/**
+ * The signed commit at the root of a repository export.
+ */
+export interface RepoCommit {
+    did: Did;
+    version: number;
+    /** CID of the root of the repository's Merkle Search Tree */
+    data: Cid;
+    /** Revision of the repository, a TID */
+    rev: string;
+    prev: Cid | null;
+    /** Signature over the DAG-CBOR encoding of the commit without `sig` */
+    sig: Uint8Array;
+}
+
+/**
+ * A record read from a repository export. The value is not validated against its lexicon.
+ */
+export type RepoRecord<K extends keyof Records = keyof Records> = {
+    [C in K]: {
+        collection: C;
+        rkey: RecordKey;
+        cid: Cid;
+        value: v.InferInput<Records[C]>;
+    }
+}[K];
+
+export interface ExportRepoOptions<K extends keyof Records = keyof Records> extends RequestOptions {
+    /**
+     * Parse the archive while it downloads instead of buffering all of it first. Blocks that are needed later are
+     * still kept in memory, so this helps most with repositories exported in traversal order.
+     */
+    stream?: boolean;
+    /** Check every block against its CID. Defaults to true. */
+    verify?: boolean;
+    /** Only yield records from these collections. The whole repository is downloaded regardless. */
+    collections?: readonly K[];
+}
+
+/**
+ * A change to a record since the last sync of a repository.
+ */
+export type RepoSyncEvent<K extends keyof Records = keyof Records> = {
+    [C in K]:
+        | { type: 'create'; collection: C; rkey: RecordKey; cid: Cid; value: v.InferInput<Records[C]> }
+        | { type: 'update'; collection: C; rkey: RecordKey; cid: Cid; previousCid: Cid; value: v.InferInput<Records[C]> }
+        | { type: 'delete'; collection: C; rkey: RecordKey; previousCid: Cid }
+}[K];
+
+/**
+ * What is remembered about a repository between syncs. This is plain JSON, so it can be persisted as is.
+ *
+ * Besides the revision, the CID of every record is kept, since a diff only contains what was added to the repository
+ * and deletions have to be found by comparing against the previous set of records.
+ */
+export interface RepoSyncState {
+    /** Revision of the repository at the last sync */
+    rev: string;
+    /** CID of every record, keyed by `collection/rkey` */
+    records: { [key: string]: Cid };
+}
+
+/**
+ * Where {@link RepoSyncState}s are kept between syncs. A `Map` works for keeping them in memory.
+ */
+export interface RepoSyncStore {
+    get(did: Did): RepoSyncState | undefined | Promise<RepoSyncState | undefined>;
+    set(did: Did, state: RepoSyncState): unknown;
+}
+
+export interface SyncRepoOptions<K extends keyof Records = keyof Records> extends Omit<ExportRepoOptions<K>, 'collections'> {
+    /** Remembers the state of each repository after a sync */
+    store: RepoSyncStore;
+    /**
+     * Only yield events for records in these collections. Records from other collections are still tracked in the
+     * stored state, so they won't show up later if the filter changes.
+     */
+    collections?: readonly K[];
+}
+
+export class RepoVerificationError extends Error {
+    override name = 'RepoVerificationError';
+}
+
+interface MstEntry {
+    /** length of the prefix shared with the previous key */
+    p: number;
+    /** key suffix */
+    k: Bytes;
+    /** record CID */
+    v: CidLink;
+    /** right subtree */
+    t: CidLink | null;
+}
+
+interface MstNode {
+    /** left subtree */
+    l: CidLink | null;
+    e: MstEntry[];
+}
+
+/**
+ * Lazily reads blocks from a CAR, so records can be produced while the rest of the archive is still downloading if
+ * the archive is in traversal order.
+ */
+class BlockReader {
+    private readonly blocks = new Map<string, Uint8Array>();
+
+    constructor(
+        private readonly entries: AsyncIterator<CarEntry> | Iterator<CarEntry>,
+        private readonly verify: boolean,
+    ) {}
+
+    /** Gets a block, or `undefined` if the CAR doesn't contain it. */
+    async tryGet(cid: string): Promise<Uint8Array | undefined> {
+        for (;;) {
+            const bytes = this.blocks.get(cid);
+            if (bytes) return bytes;
+
+            const next = await this.entries.next();
+            if (next.done) return undefined;
+
+            const entry = next.value;
+            if (this.verify) {
+                const actual = await CID.create(entry.cid.codec as 0x55 | 0x71, entry.bytes);
+                if (!CID.equals(actual, entry.cid)) {
+                    throw new RepoVerificationError(`block ${CID.toString(entry.cid)} does not match its CID`);
+                }
+            }
+
+            this.blocks.set(CID.toString(entry.cid), entry.bytes);
+        }
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const bytes = await this.tryGet(cid);
+        if (!bytes) {
+            throw new RepoVerificationError(`block ${cid} is missing from the repository`);
+        }
+        return bytes;
+    }
+
+    /** Drops a block that's only referenced once and won't be needed again. */
+    forget(cid: string) {
+        this.blocks.delete(cid);
+    }
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Either a key of the tree with the CID of its record, or a subtree that's missing from a partial CAR. All keys of a
+ * missing subtree are strictly between `after` and `before`.
+ */
+type MstItem = { key: string; cid: Cid } | { gap: { after?: string; before?: string } };
+
+/**
+ * Walks the Merkle Search Tree in key order.
+ * @param partial whether missing subtrees are expected (the CAR is a diff) rather than an error
+ */
+async function* walkMst(blocks: BlockReader, cid: string, partial: boolean, after?: string, before?: string): AsyncGenerator<MstItem> {
+    const bytes = partial ? await blocks.tryGet(cid) : await blocks.get(cid);
+    if (!bytes) {
+        yield { gap: { after, before } };
+        return;
+    }
+    blocks.forget(cid);
+
+    const node = decode(bytes) as MstNode;
+    if (!node || !Array.isArray(node.e)) {
+        throw new RepoVerificationError(`block ${cid} is not a valid MST node`);
+    }
+
+    const keys: string[] = [];
+    for (const entry of node.e) {
+        const lastKey = keys.at(-1) ?? '';
+        const key = lastKey.slice(0, entry.p) + textDecoder.decode(fromBytes(entry.k));
+        if (key <= lastKey) {
+            throw new RepoVerificationError(`MST node ${cid} is not sorted`);
+        }
+        keys.push(key);
+    }
+
+    if (node.l) yield* walkMst(blocks, node.l.$link, partial, after, keys[0] ?? before);
+
+    for (let i = 0; i < node.e.length; i++) {
+        const entry = node.e[i];
+        yield { key: keys[i], cid: entry.v.$link };
+
+        if (entry.t) yield* walkMst(blocks, entry.t.$link, partial, keys[i], keys[i + 1] ?? before);
+    }
+}
+
+/**
+ * Finds a key in the Merkle Search Tree by descending only the nodes on its path, as included in a record proof.
+ * @returns the CID of the record, or `undefined` if the tree proves the key doesn't exist
+ */
+async function findMstKey(blocks: BlockReader, cid: string, key: string): Promise<Cid | undefined> {
+    const node = decode(await blocks.get(cid)) as MstNode;
+    if (!node || !Array.isArray(node.e)) {
+        throw new RepoVerificationError(`block ${cid} is not a valid MST node`);
+    }
+
+    let subtree = node.l;
+    let lastKey = '';
+    for (const entry of node.e) {
+        const entryKey = lastKey.slice(0, entry.p) + textDecoder.decode(fromBytes(entry.k));
+        if (entryKey <= lastKey) {
+            throw new RepoVerificationError(`MST node ${cid} is not sorted`);
+        }
+        if (entryKey === key) return entry.v.$link;
+        if (entryKey > key) break;
+
+        subtree = entry.t;
+        lastKey = entryKey;
+    }
+
+    return subtree ? await findMstKey(blocks, subtree.$link, key) : undefined;
+}
+
+type CarBlocks = { roots: CidLink[]; entries: AsyncIterator<CarEntry> | Iterator<CarEntry> };
+
+/**
+ * Reads the commit at the root of a CAR, or returns `undefined` if it's missing from a partial CAR.
+ */
+async function readCommit(car: CarBlocks, blocks: BlockReader, partial: boolean): Promise<RepoCommit | undefined> {
+    if (car.roots.length !== 1) {
+        throw new RepoVerificationError(`expected a single root in the repository, got ${car.roots.length}`);
+    }
+
+    const cid = car.roots[0].$link;
+    const bytes = partial ? await blocks.tryGet(cid) : await blocks.get(cid);
+    if (!bytes) return undefined;
+    blocks.forget(cid);
+
+    const rawCommit = decode(bytes);
+    if (!rawCommit || typeof rawCommit.did !== 'string' || !rawCommit.data?.$link) {
+        throw new RepoVerificationError('root block is not a repository commit');
+    }
+
+    return {
+        did: rawCommit.did,
+        version: rawCommit.version,
+        data: rawCommit.data.$link,
+        rev: rawCommit.rev,
+        prev: rawCommit.prev?.$link ?? null,
+        sig: fromBytes(rawCommit.sig),
+    };
+}
+
+function splitKey(key: string) {
+    const slash = key.indexOf('/');
+    return {
+        collection: key.slice(0, slash) as Nsid as keyof Records,
+        rkey: key.slice(slash + 1) as RecordKey,
+    };
+}
+
+/**
+ * Reads a repository from the blocks of a CAR archive, yielding its records in key order and returning the commit.
+ * @param car the CAR's roots and an iterator over its blocks
+ * @param verify whether to check every block against its CID
+ */
+export async function* readRepo(car: CarBlocks, verify = true): AsyncGenerator<RepoRecord, RepoCommit> {
+    const blocks = new BlockReader(car.entries, verify);
+    const commit = (await readCommit(car, blocks, false))!;
+
+    for await (const item of walkMst(blocks, commit.data, false)) {
+        if ('gap' in item) continue; // can't happen in a complete repository
+
+        yield {
+            ...splitKey(item.key),
+            cid: item.cid,
+            value: decode(await blocks.get(item.cid)),
+        };
+    }
+
+    return commit;
+}
+
+/**
+ * Reads only the commit at the root of a CAR, such as the one in a firehose `#sync` message.
+ * @param car the CAR's roots and an iterator over its blocks
+ * @param verify whether to check the commit block against its CID
+ */
+export async function readRepoCommit(car: CarBlocks, verify = true): Promise<RepoCommit> {
+    return (await readCommit(car, new BlockReader(car.entries, verify), false))!;
+}
+
+/**
+ * Checks the signature of a repository commit.
+ * @param key the `#atproto` signing key of the repository's DID document, as returned by `getSigningKey`
+ */
+export async function verifyCommitSignature(commit: RepoCommit, key: FoundPublicKey): Promise<boolean> {
+    const unsigned = encode({
+        did: commit.did,
+        version: commit.version,
+        data: { $link: commit.data },
+        rev: commit.rev,
+        prev: commit.prev !== null ? { $link: commit.prev } : null,
+    });
+
+    return await verifySig(key, commit.sig as Uint8Array<ArrayBuffer>, unsigned);
+}
+
+/**
+ * Reads a record from the proof returned by `com.atproto.sync.getRecord`: a CAR holding the commit, the MST nodes on
+ * the path to the record and the record itself. Every block is checked against its CID, so once the commit's
+ * signature is checked with {@link verifyCommitSignature}, the record can be trusted wherever the CAR came from.
+ * @param car the CAR's roots and an iterator over its blocks
+ * @returns the commit, and the record or `undefined` if the proof shows it doesn't exist
+ */
+export async function readRecordProof<K extends keyof Records>(
+    car: CarBlocks,
+    collection: K,
+    rkey: RecordKey,
+): Promise<{ commit: RepoCommit; record: RepoRecord<K> | undefined }> {
+    const blocks = new BlockReader(car.entries, true);
+    const commit = (await readCommit(car, blocks, false))!;
+
+    const cid = await findMstKey(blocks, commit.data, `${collection}/${rkey}`);
+    if (!cid) return { commit, record: undefined };
+
+    const record = { collection, rkey, cid, value: decode(await blocks.get(cid)) } as RepoRecord<K>;
+    return { commit, record };
+}
+
+/**
+ * Reads the changes to a repository from a CAR returned by `com.atproto.sync.getRepo` with `since` set to the
+ * revision of the previous state, yielding an event for every record that changed.
+ *
+ * Subtrees of the MST that are missing from the CAR haven't changed since that revision, so their records are carried
+ * over from the previous state. Deletions can only be detected once the whole tree has been walked, so they come last.
+ *
+ * Returns `undefined` if the commit itself is missing, meaning the repository hasn't changed.
+ * @param car the CAR's roots and an iterator over its blocks
+ * @param previous the state after the last sync, or `undefined` to treat every record as created
+ * @param getMissingRecord fetches a record whose block isn't in the CAR, because an identical record existed before
+ * @param verify whether to check every block against its CID
+ */
+export async function* readRepoDiff(
+    car: CarBlocks,
+    previous: RepoSyncState | undefined,
+    getMissingRecord: (collection: keyof Records, rkey: RecordKey, cid: Cid) => Promise<unknown>,
+    verify = true,
+): AsyncGenerator<RepoSyncEvent, { commit: RepoCommit; state: RepoSyncState } | undefined> {
+    const partial = previous !== undefined;
+    const blocks = new BlockReader(car.entries, verify);
+    const commit = await readCommit(car, blocks, partial);
+    if (!commit) return undefined;
+
+    const previousRecords = previous?.records ?? {};
+    const previousKeys = Object.keys(previousRecords).sort();
+    const records: { [key: string]: Cid } = {};
+
+    // gaps are visited in key order, so a single cursor over the previous keys is enough
+    let cursor = 0;
+    for await (const item of walkMst(blocks, commit.data, partial)) {
+        if ('gap' in item) {
+            const { after, before } = item.gap;
+            while (cursor < previousKeys.length && after !== undefined && previousKeys[cursor] <= after) cursor++;
+            while (cursor < previousKeys.length && (before === undefined || previousKeys[cursor] < before)) {
+                const key = previousKeys[cursor++];
+                records[key] = previousRecords[key];
+            }
+            continue;
+        }
+
+        records[item.key] = item.cid;
+
+        const previousCid = previousRecords[item.key] as Cid | undefined;
+        if (previousCid === item.cid) continue;
+
+        const { collection, rkey } = splitKey(item.key);
+        const bytes = partial ? await blocks.tryGet(item.cid) : await blocks.get(item.cid);
+        const value = bytes ? decode(bytes) : await getMissingRecord(collection, rkey, item.cid);
+
+        yield previousCid === undefined
+            ? { type: 'create', collection, rkey, cid: item.cid, value }
+            : { type: 'update', collection, rkey, cid: item.cid, previousCid, value };
+    }
+
+    for (const key of previousKeys) {
+        if (key in records) continue;
+        yield { type: 'delete', ...splitKey(key), previousCid: previousRecords[key] };
+    }
+
+    return { commit, state: { rev: commit.rev, records } };
+}
@@ -0,0 +1,131 @@
+import { RequestAbortedError } from "./signal.js";
+
+export interface RetryOptions {
+    /**
+     * Maximum number of attempts made for a single request, including the first one. Set to 1 to disable retrying.
+     * Defaults to 3.
+     */
+    maxAttempts?: number;
+
+    /**
+     * Base delay in milliseconds for the exponential backoff. The nth retry waits a random duration between 0 and
+     * `baseDelay * 2 ** n` (capped at `maxDelay`). Defaults to 500.
+     */
+    baseDelay?: number;
+
+    /**
+     * Maximum delay in milliseconds between two attempts. If the server asks us (via `ratelimit-reset` or
+     * `retry-after`) to wait longer than this, the request is not retried. Defaults to 30 seconds.
+     */
+    maxDelay?: number;
+
+    /**
+     * HTTP statuses considered transient. Defaults to 408, 429, 500, 502, 503 and 504.
+     */
+    retryableStatuses?: readonly number[];
+
+    /**
+     * Whether procedures (HTTP POST) may be retried. Writes are not idempotent in general, so this is off by default.
+     * A function can be passed to allow retrying only specific NSIDs.
+     */
+    retryWrites?: boolean | ((nsid: string) => boolean);
+}
+
+export interface RetryAttempt {
+    /** 1-based index of the attempt */
+    attempt: number;
+    /** HTTP status of the response, if one was received */
+    status?: number;
+    /** XRPC error name, or the thrown error if the request failed before receiving a response */
+    error?: unknown;
+    /** How long we waited after this attempt before trying again, in milliseconds */
+    delay?: number;
+}
+
+const DEFAULT_RETRYABLE_STATUSES: readonly number[] = [408, 429, 500, 502, 503, 504];
+
+/** @private */
+export class RetryPolicy {
+    readonly maxAttempts: number;
+    readonly baseDelay: number;
+    readonly maxDelay: number;
+    readonly retryableStatuses: readonly number[];
+    private readonly retryWrites: boolean | ((nsid: string) => boolean);
+
+    constructor(readonly options: RetryOptions = {}) {
+        this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+        this.baseDelay = options.baseDelay ?? 500;
+        this.maxDelay = options.maxDelay ?? 30_000;
+        this.retryableStatuses = options.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+        this.retryWrites = options.retryWrites ?? false;
+    }
+
+    canRetry(method: 'get' | 'post', nsid: string) {
+        if (this.maxAttempts <= 1) return false;
+        if (method === 'get') return true;
+        return typeof this.retryWrites === 'function' ? this.retryWrites(nsid) : this.retryWrites;
+    }
+
+    isRetryableStatus(status: number) {
+        return this.retryableStatuses.includes(status);
+    }
+
+    /**
+     * Computes how long to wait before the next attempt, or `undefined` if we shouldn't retry.
+     * @param attempt 1-based index of the attempt that just failed
+     * @param headers response headers, if a response was received
+     */
+    getDelay(attempt: number, headers?: Headers): number | undefined {
+        if (attempt >= this.maxAttempts) return undefined;
+
+        const requested = headers && getRequestedDelay(headers);
+        if (requested !== undefined) {
+            return requested <= this.maxDelay ? requested : undefined;
+        }
+
+        // full jitter, see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+        const ceiling = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1));
+        return Math.floor(Math.random() * ceiling);
+    }
+}
+
+/**
+ * Reads the delay the server asked for, from either the atproto `ratelimit-reset` header (unix timestamp in seconds)
+ * or the standard `retry-after` header (seconds or HTTP date).
+ */
+function getRequestedDelay(headers: Headers): number | undefined {
+    const remaining = headers.get('ratelimit-remaining');
+    const reset = headers.get('ratelimit-reset');
+    if (reset !== null && (remaining === null || Number(remaining) <= 0)) {
+        const resetAt = Number(reset) * 1000;
+        if (Number.isFinite(resetAt)) return Math.max(0, resetAt - Date.now());
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter !== null) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(new RequestAbortedError(signal.reason));
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestAbortedError(signal!.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
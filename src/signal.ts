@@ -0,0 +1,39 @@
+export interface RequestOptions {
+    /** Aborts the operation, including any retries and further pages */
+    signal?: AbortSignal;
+    /** Aborts the operation if it takes longer than this many milliseconds in total */
+    timeout?: number;
+}
+
+export class RequestAbortedError extends Error {
+    override name = 'RequestAbortedError';
+
+    /** Whether the operation was aborted because its timeout elapsed */
+    readonly timedOut: boolean;
+
+    constructor(readonly reason: unknown) {
+        const timedOut = reason instanceof DOMException && reason.name === 'TimeoutError';
+        super(timedOut ? 'the operation timed out' : 'the operation was aborted', { cause: reason });
+        this.timedOut = timedOut;
+    }
+}
+
+export function isAbortError(err: unknown): err is RequestAbortedError {
+    return err instanceof RequestAbortedError;
+}
+
+/**
+ * Combines the signal and timeout of the options into a single signal.
+ * @private
+ */
+export function getSignal({ signal, timeout }: RequestOptions = {}): AbortSignal | undefined {
+    if (timeout === undefined) return signal;
+
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    return signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+}
+
+/** @private */
+export function throwIfAborted(signal: AbortSignal | undefined) {
+    if (signal?.aborted) throw new RequestAbortedError(signal.reason);
+}
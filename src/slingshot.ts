@@ -1,21 +1,69 @@
 import { simpleFetchHandler } from "@atcute/client";
 import { KittyAgent } from "./agent.js";
+import type { RetryOptions } from "./retry.js";
+import { headerMiddleware } from "./middleware.js";
+import { getSignal, type RequestOptions } from "./signal.js";
+import type { ActorIdentifier, Cid, RecordKey, ResourceUri } from "@atcute/lexicons";
+import type { Records } from "@atcute/lexicons/ambient";
+import type { AtUri } from "@atproto/syntax";
+import type * as v from '@atcute/lexicons/validations';
+import { RecordValidationError, validateRecord, type RecordValidationOptions } from "./validation.js";
+import type { ComBadExampleIdentityResolveMiniDoc } from "./lexicons/index.js";
+
+/**
+ * The parts of a DID document Slingshot returns, with the handle already verified in both directions.
+ */
+export type MiniDoc = ComBadExampleIdentityResolveMiniDoc.$output;
 
 export class SlingshotClient extends KittyAgent {
-    constructor({ service, userAgent }: { service?: string; userAgent: string }) {
+    constructor({ service, userAgent, retry }: { service?: string; userAgent: string; retry?: RetryOptions | false }) {
         super({
-            handler: simpleFetchHandler({
-                service: service ?? 'https://slingshot.microcosm.blue',
-                fetch(input, init) {
-                    return fetch(input, {
-                        ...init,
-                        headers: {
-                            ...init?.headers,
-                            'User-Agent': userAgent,
-                        },
-                    });
-                },
-            })
+            retry,
+            handler: simpleFetchHandler({ service: service ?? 'https://slingshot.microcosm.blue' }),
+            middleware: [headerMiddleware({ 'User-Agent': userAgent })],
+        });
+    }
+
+    /**
+     * Resolves a handle or DID to its DID, verified handle, PDS and signing key. The handle is `handle.invalid` if it
+     * doesn't match the DID document.
+     */
+    async resolveMiniDoc(identifier: ActorIdentifier, options?: RequestOptions): Promise<MiniDoc> {
+        return await this.getSafe('com.bad-example.identity.resolveMiniDoc', {
+            as: 'json',
+            params: { identifier },
+            signal: getSignal(options),
+        });
+    }
+
+    /**
+     * Gets a record from Slingshot's cache by its AT URI, whose authority can be a handle or a DID. The record's type
+     * comes from the collection in the URI.
+     */
+    async getUriRecord<K extends keyof Records>(
+        atUri: `at://${ActorIdentifier}/${K}/${RecordKey}`,
+        params?: { cid?: Cid; validate?: RecordValidationOptions<K> },
+        options?: RequestOptions
+    ): Promise<{ cid?: Cid; readonly uri: AtUri; value: v.InferInput<Records[K]> }> {
+        const response = await this.getSafe('com.bad-example.repo.getUriRecord', {
+            as: 'json',
+            params: { at_uri: atUri, cid: params?.cid },
+            signal: getSignal(options),
         });
+
+        const record = this.makeRecordTyped<K, {
+            uri: ResourceUri;
+            value: { [key: string]: unknown };
+            cid?: Cid | undefined;
+        }>(response as { uri: ResourceUri; value: { [key: string]: unknown }; cid?: Cid });
+
+        if (params?.validate) {
+            const result = validateRecord(params.validate.schema, record.value);
+            if (!result.ok) {
+                throw new RecordValidationError(atUri.split('/')[3] as K, result.issues, result.message, { uri: response.uri });
+            }
+        }
+
+        return record;
     }
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import type { RetryPolicy } from "./retry.js";
+import { sleep } from "./retry.js";
+import { throwIfAborted } from "./signal.js";
+
+/**
+ * Thrown when a subscription's WebSocket fails or is closed by the server, and reconnecting is disabled or gave up.
+ */
+export class SubscriptionConnectionError extends Error {
+    override name = 'SubscriptionConnectionError';
+
+    constructor(
+        message: string,
+        /** Close code sent by the server, if the connection was closed rather than failing to open */
+        readonly code?: number,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Yields the messages received on a socket, then throws once it closes.
+ * @private
+ */
+export async function* readSocket(socket: WebSocket, signal: AbortSignal | undefined): AsyncGenerator<string | Uint8Array> {
+    const messages: (string | Uint8Array)[] = [];
+    let done: Error | undefined;
+    let wake: (() => void) | undefined;
+
+    const finish = (reason: Error) => {
+        done ??= reason;
+        wake?.();
+    };
+
+    socket.binaryType = 'arraybuffer';
+    socket.addEventListener('message', (event) => {
+        messages.push(typeof event.data === 'string' ? event.data : new Uint8Array(event.data));
+        wake?.();
+    });
+    socket.addEventListener('close', (event) => {
+        finish(new SubscriptionConnectionError(`server closed the connection: ${event.code} ${event.reason}`.trim(), event.code));
+    });
+    socket.addEventListener('error', () => {
+        finish(new SubscriptionConnectionError('connection failed'));
+    });
+
+    const onAbort = () => wake?.();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        for (;;) {
+            throwIfAborted(signal);
+            if (messages.length) {
+                yield messages.shift()!;
+                continue;
+            }
+            if (done) throw done;
+
+            await new Promise<void>(resolve => wake = resolve);
+            wake = undefined;
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (socket.readyState === socket.CONNECTING || socket.readyState === socket.OPEN) socket.close();
+    }
+}
+
+/**
+ * Yields the messages of a connection, opening a new one whenever it drops. The attempt counter is reset whenever a
+ * message arrives, so the policy's `maxAttempts` limits consecutive failures.
+ *
+ * `connect` is only called once the previous message has been consumed, so it can resume from a cursor updated by
+ * the consumer.
+ * @private
+ */
+export async function* reconnecting<T>(
+    policy: RetryPolicy | undefined,
+    signal: AbortSignal | undefined,
+    connect: () => AsyncIterable<T>,
+): AsyncGenerator<T, never> {
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+
+        try {
+            for await (const message of connect()) {
+                attempt = 1;
+                yield message;
+            }
+        } catch (err) {
+            if (!(err instanceof SubscriptionConnectionError)) throw err;
+
+            const delay = policy?.getDelay(attempt);
+            if (delay === undefined) throw err;
+
+            await sleep(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import type { ComAtprotoRepoApplyWrites, ComAtprotoRepoDefs } from '@atcute/atproto';
+import type { ActorIdentifier, Cid, RecordKey } from "@atcute/lexicons";
+import type { Records } from "@atcute/lexicons/ambient";
+import { AtUri } from "@atproto/syntax";
+import type { KittyAgent } from "./agent.js";
+import { getSignal, type RequestOptions } from "./signal.js";
+import { prepareRecord, type RecordInput, type RecordSchemaOf, type RecordSchemas } from "./validation.js";
+
+/**
+ * Maximum number of writes a PDS accepts in a single `com.atproto.repo.applyWrites` call.
+ */
+export const MAX_WRITES_PER_BATCH = 200;
+
+export interface CreateOperation<K extends keyof Records = keyof Records> {
+    type: 'create';
+    collection: K;
+    rkey?: RecordKey;
+    record: RecordInput<K>;
+}
+
+export interface UpdateOperation<K extends keyof Records = keyof Records> {
+    type: 'update';
+    collection: K;
+    rkey: RecordKey;
+    record: RecordInput<K>;
+}
+
+export interface DeleteOperation<K extends keyof Records = keyof Records> {
+    type: 'delete';
+    collection: K;
+    rkey: RecordKey;
+}
+
+export type WriteOperation = CreateOperation | UpdateOperation | DeleteOperation;
+
+export interface CreateOperationResult<K extends keyof Records = keyof Records> {
+    type: 'create';
+    operation: CreateOperation<K>;
+    /** Undefined if the PDS didn't return results and the record key was generated by the PDS */
+    readonly uri: AtUri | undefined;
+    /** Undefined if the PDS didn't return results */
+    cid: Cid | undefined;
+    validationStatus?: string;
+}
+
+export interface UpdateOperationResult<K extends keyof Records = keyof Records> {
+    type: 'update';
+    operation: UpdateOperation<K>;
+    readonly uri: AtUri;
+    /** Undefined if the PDS didn't return results */
+    cid: Cid | undefined;
+    validationStatus?: string;
+}
+
+export interface DeleteOperationResult<K extends keyof Records = keyof Records> {
+    type: 'delete';
+    operation: DeleteOperation<K>;
+    readonly uri: AtUri;
+}
+
+export type WriteOperationResult = CreateOperationResult | UpdateOperationResult | DeleteOperationResult;
+
+type ResultOf<T>
+    = T extends CreateOperation<infer K> ? CreateOperationResult<K>
+    : T extends UpdateOperation<infer K> ? UpdateOperationResult<K>
+    : T extends DeleteOperation<infer K> ? DeleteOperationResult<K>
+    : never;
+
+export interface TransactionResult<Ops extends WriteOperation[]> {
+    /** The commit created by the last batch of writes */
+    commit?: ComAtprotoRepoDefs.CommitMeta;
+    /** One result per operation, in the order the operations were added */
+    results: { [I in keyof Ops]: ResultOf<Ops[I]> };
+}
+
+export interface CommitOptions extends RequestOptions {
+    /**
+     * Only commit if the repository is at this commit. If the writes are split into several batches, each batch is
+     * swapped against the commit created by the previous one.
+     */
+    swapCommit?: Cid;
+    /** Server-side lexicon validation, see `com.atproto.repo.applyWrites` */
+    validate?: boolean;
+    /** Schemas to validate created and updated records against before sending anything, keyed by collection */
+    schemas?: RecordSchemas;
+    /** Number of writes sent per `applyWrites` call. Defaults to {@link MAX_WRITES_PER_BATCH}. */
+    batchSize?: number;
+}
+
+/**
+ * Typed builder for `com.atproto.repo.applyWrites`. Each method appends an operation and returns the builder, so the
+ * results of {@link commit} line up with the operations that produced them.
+ *
+ * Writes beyond the PDS's per-call limit are sent in several batches, so a transaction of more than
+ * {@link MAX_WRITES_PER_BATCH} writes is not atomic: if a batch fails, the previous ones have already been applied.
+ */
+export class WriteTransaction<Ops extends WriteOperation[] = []> {
+    private readonly operations: WriteOperation[] = [];
+    private committed = false;
+
+    constructor(
+        private readonly agent: KittyAgent,
+        readonly repo: ActorIdentifier,
+    ) {}
+
+    /** Number of operations added so far */
+    get size() {
+        return this.operations.length;
+    }
+
+    create<K extends keyof Records>(collection: K, record: RecordInput<K>, rkey?: RecordKey): WriteTransaction<[...Ops, CreateOperation<K>]> {
+        return this.append<CreateOperation<K>>({ type: 'create', collection, record, rkey });
+    }
+
+    update<K extends keyof Records>(collection: K, rkey: RecordKey, record: RecordInput<K>): WriteTransaction<[...Ops, UpdateOperation<K>]> {
+        return this.append<UpdateOperation<K>>({ type: 'update', collection, rkey, record });
+    }
+
+    delete<K extends keyof Records>(collection: K, rkey: RecordKey): WriteTransaction<[...Ops, DeleteOperation<K>]> {
+        return this.append<DeleteOperation<K>>({ type: 'delete', collection, rkey });
+    }
+
+    private append<Op extends WriteOperation>(operation: Op): WriteTransaction<[...Ops, Op]> {
+        this.operations.push(operation);
+        // the builder is the same object, only its type grows by the added operation
+        return this as unknown as WriteTransaction<[...Ops, Op]>;
+    }
+
+    /**
+     * Sends the writes. A transaction can only be committed once, since committing it again would repeat its creates.
+     */
+    async commit({ swapCommit, validate, schemas = {}, batchSize = MAX_WRITES_PER_BATCH, ...options }: CommitOptions = {}): Promise<TransactionResult<Ops>> {
+        if (this.committed) {
+            throw new Error('transaction was already committed');
+        }
+        if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_WRITES_PER_BATCH) {
+            throw new RangeError(`batchSize must be an integer from 1 to ${MAX_WRITES_PER_BATCH}, got ${batchSize}`);
+        }
+
+        // validate everything up front so nothing gets written if any record is invalid
+        const writes = this.operations.map((op, i): ComAtprotoRepoApplyWrites.$input['writes'][number] => {
+            if (op.type === 'delete') {
+                return { $type: 'com.atproto.repo.applyWrites#delete', collection: op.collection, rkey: op.rkey };
+            }
+
+            const schema = schemas[op.collection] as RecordSchemaOf<typeof op.collection> | undefined;
+            const value = prepareRecord(op.collection, op.record, schema, i);
+
+            return op.type === 'create'
+                ? { $type: 'com.atproto.repo.applyWrites#create', collection: op.collection, rkey: op.rkey, value }
+                : { $type: 'com.atproto.repo.applyWrites#update', collection: op.collection, rkey: op.rkey, value };
+        });
+
+        this.committed = true;
+
+        const signal = getSignal(options);
+        const results: WriteOperationResult[] = [];
+        let commit: ComAtprotoRepoDefs.CommitMeta | undefined;
+
+        for (let start = 0; start < writes.length; start += batchSize) {
+            const output = await this.agent.batchWrite({
+                repo: this.repo,
+                writes: writes.slice(start, start + batchSize),
+                swapCommit: swapCommit !== undefined ? commit?.cid ?? swapCommit : undefined,
+                validate,
+            }, { signal });
+
+            commit = output.commit;
+
+            const batch = this.operations.slice(start, start + batchSize);
+            for (let i = 0; i < batch.length; i++) {
+                results.push(this.makeResult(batch[i], output.results?.[i]));
+            }
+        }
+
+        return { commit, results: results as TransactionResult<Ops>['results'] };
+    }
+
+    private makeResult(
+        operation: WriteOperation,
+        result: ComAtprotoRepoApplyWrites.$output['results'] extends (infer R)[] | undefined ? R | undefined : never
+    ): WriteOperationResult {
+        if (operation.type === 'delete') {
+            return {
+                type: 'delete',
+                operation,
+                uri: new AtUri(`at://${this.repo}/${operation.collection}/${operation.rkey}`),
+            };
+        }
+
+        // results are optional in the output, and the writes have already landed by now, so a PDS that leaves them out
+        // mustn't fail the commit. the URI can still be built when the record key was chosen by the caller.
+        const written = result && 'uri' in result ? result : undefined;
+        const uri = written?.uri ?? (operation.rkey !== undefined ? `at://${this.repo}/${operation.collection}/${operation.rkey}` : undefined);
+
+        let memoizedAtUri: AtUri | undefined;
+        return {
+            type: operation.type,
+            operation: operation as never,
+            cid: written?.cid,
+            validationStatus: written?.validationStatus,
+            get uri() {
+                return uri !== undefined ? memoizedAtUri ??= new AtUri(uri) : undefined;
+            },
+        } as WriteOperationResult;
+    }
+}
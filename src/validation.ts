@@ -0,0 +1,106 @@
+import type { Records } from "@atcute/lexicons/ambient";
+import type { Cid } from "@atcute/lexicons";
+import type { AtUri } from "@atproto/syntax";
+import * as v from '@atcute/lexicons/validations';
+import type { Namespaced } from "./type-helpers.js";
+
+/**
+ * Lexicon schema of a record collection, or a namespace containing it as `mainSchema` (e.g. `AppBskyFeedPost`).
+ */
+export type RecordSchemaOf<K extends keyof Records> = Records[K] | Namespaced<Records[K]>;
+
+export interface RecordValidationOptions<K extends keyof Records> {
+    schema: RecordSchemaOf<K>;
+}
+
+export interface ListValidationOptions<K extends keyof Records> extends RecordValidationOptions<K> {
+    /**
+     * What to do with records that fail validation:
+     * - `throw` (default): throw a {@link RecordValidationError}
+     * - `skip`: leave them out of the results
+     * - `collect`: leave them out of the results and report them in `invalid`
+     */
+    mode?: 'throw' | 'skip' | 'collect';
+}
+
+export interface InvalidRecord {
+    cid?: Cid;
+    readonly uri: AtUri;
+    value: unknown;
+    issues: readonly v.Issue[];
+}
+
+/** A record value; `$type` is filled in from the collection if left out */
+export type RecordInput<K extends keyof Records> = Omit<v.InferInput<Records[K]>, '$type'> & { $type?: K };
+
+export type RecordSchemas = { [K in keyof Records]?: RecordSchemaOf<K> };
+
+export interface WriteValidationOptions<K extends keyof Records> {
+    /** Schema to validate the record against before sending it */
+    schema?: RecordSchemaOf<K>;
+}
+
+export interface BatchWriteValidationOptions {
+    /** Schemas to validate created and updated records against before sending them, keyed by collection */
+    schemas?: RecordSchemas;
+}
+
+export class RecordValidationError extends Error {
+    override name = 'RecordValidationError';
+
+    /** URI of the invalid record, if it was read from a repository */
+    readonly uri: string | undefined;
+    /** Index of the offending operation, if the record was part of a batch write */
+    readonly writeIndex: number | undefined;
+
+    constructor(
+        /** Collection of the invalid record */
+        readonly collection: string,
+        /** Validation issues, each with the path to the offending field */
+        readonly issues: readonly v.Issue[],
+        message: string,
+        { uri, writeIndex }: { uri?: string; writeIndex?: number } = {},
+    ) {
+        super(
+            uri ? `invalid record ${uri}: ${message}`
+            : writeIndex !== undefined ? `invalid ${collection} record in writes[${writeIndex}]: ${message}`
+            : `invalid ${collection} record: ${message}`
+        );
+        this.uri = uri;
+        this.writeIndex = writeIndex;
+    }
+}
+
+/** @private */
+export function getRecordSchema<K extends keyof Records>(schema: RecordSchemaOf<K>): Records[K] {
+    return 'mainSchema' in schema ? schema.mainSchema : schema;
+}
+
+/** @private */
+export function validateRecord<K extends keyof Records>(schema: RecordSchemaOf<K>, value: unknown): v.ValidationResult<v.InferOutput<Records[K]>> {
+    // TypeScript can't relate the output of a generic `Records[K]` to `InferOutput<Records[K]>` once `Records` has more
+    // than one member, but the schema for K always parses into K's output
+    return v.safeParse(getRecordSchema(schema), value) as v.ValidationResult<v.InferOutput<Records[K]>>;
+}
+
+/**
+ * Fills in the record's `$type` from its collection if it's missing, then validates it if a schema is given.
+ * @private
+ */
+export function prepareRecord<K extends keyof Records>(
+    collection: K,
+    record: { [key: string]: unknown },
+    schema: RecordSchemaOf<K> | undefined,
+    writeIndex?: number,
+): { [key: string]: unknown } {
+    const filled = record.$type === undefined ? { ...record, $type: collection } : record;
+
+    if (schema) {
+        const result = validateRecord(schema, filled);
+        if (!result.ok) {
+            throw new RecordValidationError(collection, result.issues, result.message, { writeIndex });
+        }
+    }
+
+    return filled;
+}